@@ -1,6 +1,162 @@
 import { google } from "googleapis";
-import type { docs_v1 } from "googleapis";
+import type { docs_v1, drive_v3 } from "googleapis";
 import { GoogleAuth } from "google-auth-library";
+import type { JWTInput } from "google-auth-library";
+import { DocsAuthError } from "./errors";
+import { getObjectId } from "./cache";
+
+/**
+ * Options for creating a Google Docs API client without relying on `process.env`.
+ *
+ * Resolution order:
+ * 1. `docsClient` - used as-is.
+ * 2. `authClient` - wrapped into a new Docs client.
+ * 3. `credentials` - used to build a `GoogleAuth` instance.
+ * 4. Fallback to `GOOGLE_APPLICATION_CREDENTIALS`.
+ */
+export interface DocsClientOptions {
+  /**
+   * A pre-built Docs client. When provided, all other authentication options are ignored.
+   */
+  docsClient?: docs_v1.Docs;
+
+  /**
+   * An authenticated client (e.g., `GoogleAuth`, `JWT`, `OAuth2Client`) used for API calls.
+   */
+  authClient?: Exclude<docs_v1.Options["auth"], string | undefined>;
+
+  /**
+   * Service Account credentials, either as a parsed object or a JSON string.
+   */
+  credentials?: JWTInput | string;
+
+  /**
+   * A custom `fetch` implementation used for HTTP requests.
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Resolves Service Account credentials from an explicit value or the environment.
+ *
+ * - Objects are returned as-is.
+ * - JSON strings (starting with '{') are parsed.
+ * - Anything else (e.g., a file path) resolves to `undefined`, letting GoogleAuth handle it.
+ */
+function resolveCredentials(
+  credentials: JWTInput | string | undefined
+): JWTInput | undefined {
+  if (credentials && typeof credentials === "object") {
+    return credentials;
+  }
+
+  const credentialsEnv =
+    credentials ?? process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+  if (credentialsEnv?.trim().startsWith("{")) {
+    return JSON.parse(credentialsEnv) as JWTInput;
+  }
+  return undefined;
+}
+
+/**
+ * Identifies the principal that API calls are made as, so cache entries are never
+ * shared between callers with different credentials.
+ *
+ * - `docsClient` / `authClient`: The client object (within this process).
+ * - Service Account credentials: The `client_email`.
+ * - Other credentials: The credentials themselves (file path or JSON).
+ *
+ * @param options - The client options.
+ * @returns The identity string (hashed before it is used in a cache key).
+ */
+export function getCredentialIdentity(options: DocsClientOptions = {}): string {
+  if (options.docsClient) {
+    return `docsClient:${getObjectId(options.docsClient)}`;
+  }
+  if (options.authClient) {
+    return `authClient:${getObjectId(options.authClient)}`;
+  }
+  const input =
+    options.credentials ?? process.env.GOOGLE_APPLICATION_CREDENTIALS ?? "";
+  try {
+    const email = resolveCredentials(input)?.client_email;
+    if (email) return `serviceAccount:${email}`;
+  } catch {
+    // Invalid JSON fails when the client is created; identify it by its text.
+  }
+  return `credentials:${typeof input === "string" ? input : JSON.stringify(input)}`;
+}
+
+/**
+ * The OAuth2 scope requested for Google Docs read access.
+ */
+const DOCS_READONLY_SCOPE = "https://www.googleapis.com/auth/documents.readonly";
+
+/**
+ * The OAuth2 scope requested for listing Google Drive folders.
+ */
+const DRIVE_READONLY_SCOPE = "https://www.googleapis.com/auth/drive.readonly";
+
+/**
+ * Creates a `GoogleAuth` instance with the given scopes (Docs read-only by default).
+ */
+function createGoogleAuth(
+  credentialsInput: JWTInput | string | undefined,
+  scopes: string[] = [DOCS_READONLY_SCOPE]
+) {
+  const credentials = resolveCredentials(credentialsInput);
+  return new GoogleAuth({
+    ...(credentials && { credentials }),
+    scopes,
+  });
+}
+
+/**
+ * Resolves one auth client for both the Drive and Docs APIs, so listing a folder
+ * and fetching its documents share a single access token.
+ *
+ * @param options - Optional explicit auth client or credentials.
+ * @returns `options.authClient` as-is, or a `GoogleAuth` with the Drive and Docs read-only scopes.
+ * @throws {DocsAuthError} If the credentials cannot be parsed.
+ */
+export function createDriveAuthClient(
+  options: DocsClientOptions = {}
+): NonNullable<DocsClientOptions["authClient"]> {
+  if (options.authClient) {
+    return options.authClient;
+  }
+
+  try {
+    return createGoogleAuth(options.credentials, [
+      DRIVE_READONLY_SCOPE,
+      DOCS_READONLY_SCOPE,
+    ]);
+  } catch (error) {
+    throw new DocsAuthError(
+      "Failed to initialize Google Drive client. Check setup and credentials.",
+      {},
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Creates a Google Drive API (v3) client for listing folders.
+ *
+ * @param options - Optional explicit auth client, credentials, or fetch implementation.
+ * @returns An initialized `drive_v3.Drive` client.
+ * @throws {DocsAuthError} If the credentials cannot be parsed.
+ */
+export function createDriveClient(
+  options: DocsClientOptions = {}
+): drive_v3.Drive {
+  return google.drive({
+    version: "v3",
+    auth: createDriveAuthClient(options),
+    ...(options.fetch && { fetchImplementation: options.fetch }),
+  });
+}
 
 /**
  * Creates and configures a Google Docs API client instance.
@@ -8,35 +164,36 @@ import { GoogleAuth } from "google-auth-library";
  * This function handles authentication using `GoogleAuth` with the read-only scope
  * and initializes the `googleapis` Docs service with version 'v1'.
  *
- * The function automatically detects the credential format from GOOGLE_APPLICATION_CREDENTIALS:
+ * Unless `options` provide a client or credentials, the credential format is detected
+ * from GOOGLE_APPLICATION_CREDENTIALS:
  * - If it's a JSON string (starts with '{'): Parses and uses it directly
  * - If it's a file path: Lets GoogleAuth handle it automatically by passing undefined
  *
+ * @param options - Optional explicit client, auth client, credentials, or fetch implementation.
  * @returns An initialized `docs_v1.Docs` client ready for API calls.
- * @throws {Error} If client initialization fails (e.g., missing credentials or configuration errors).
+ * @throws {DocsAuthError} If client initialization fails (e.g., missing credentials or configuration errors).
  */
-export function createDocsClient(): docs_v1.Docs {
-  try {
-    const credentialsEnv = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-    let credentials;
-
-    if (credentialsEnv?.trim().startsWith("{")) {
-      credentials = JSON.parse(credentialsEnv);
-    }
+export function createDocsClient(
+  options: DocsClientOptions = {}
+): docs_v1.Docs {
+  if (options.docsClient) {
+    return options.docsClient;
+  }
 
-    const auth = new GoogleAuth({
-      credentials,
-      scopes: ["https://www.googleapis.com/auth/documents.readonly"],
-    });
+  try {
+    const auth = options.authClient ?? createGoogleAuth(options.credentials);
 
     return google.docs({
       version: "v1",
       auth,
+      ...(options.fetch && { fetchImplementation: options.fetch }),
     });
   } catch (error) {
     console.error("Error initializing Google Docs client:", error);
-    throw new Error(
-      "Failed to initialize Google Docs client. Check setup and credentials."
+    throw new DocsAuthError(
+      "Failed to initialize Google Docs client. Check setup and credentials.",
+      {},
+      { cause: error }
     );
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * The outcome of parsing one document in a batch, like `PromiseSettledResult`
+ * with the document ID attached.
+ */
+export type ParsedDocumentResult<T> =
+  | { documentId: string; status: "fulfilled"; value: T }
+  | { documentId: string; status: "rejected"; reason: unknown };
+
+/**
+ * Progress of a batch, passed to `BatchOptions.onProgress` after each document settles.
+ */
+export interface BatchProgress<T> {
+  /** The number of settled documents, including this one. */
+  completed: number;
+  /** The total number of documents in the batch. */
+  total: number;
+  /** The outcome of the document that just settled. */
+  result: ParsedDocumentResult<T>;
+}
+
+/**
+ * Options for parsing several documents at once.
+ */
+export interface BatchOptions<T> {
+  /** The maximum number of documents fetched at the same time (default `5`). */
+  concurrency?: number;
+  /** Called each time a document settles, in completion order. */
+  onProgress?(progress: BatchProgress<T>): void;
+}
+
+/**
+ * Runs a task for each document ID with limited concurrency, collecting every
+ * outcome instead of stopping at the first failure.
+ *
+ * @template T - The task result.
+ * @param documentIdList - The document IDs to process.
+ * @param task - The task to run for each ID.
+ * @param options - The concurrency limit and progress callback.
+ * @returns One result per ID, in the order of `documentIdList`.
+ */
+export async function mapSettled<T>(
+  documentIdList: readonly string[],
+  task: (documentId: string) => Promise<T>,
+  options: BatchOptions<T> = {}
+): Promise<ParsedDocumentResult<T>[]> {
+  const { concurrency = 5, onProgress } = options;
+  const results = new Array<ParsedDocumentResult<T>>(documentIdList.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < documentIdList.length) {
+      const index = nextIndex++;
+      const documentId = documentIdList[index] as string;
+      let result: ParsedDocumentResult<T>;
+      try {
+        result = { documentId, status: "fulfilled", value: await task(documentId) };
+      } catch (reason) {
+        result = { documentId, status: "rejected", reason };
+      }
+      results[index] = result;
+      completed++;
+      onProgress?.({ completed, total: documentIdList.length, result });
+    }
+  };
+
+  const workerCount = Math.min(
+    Math.max(1, Math.floor(concurrency)),
+    documentIdList.length
+  );
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
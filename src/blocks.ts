@@ -0,0 +1,212 @@
+import type { docs_v1 } from "googleapis";
+import { RichText } from "./types";
+import { ParagraphCursor } from "./cursor";
+import { extractRichText, getParagraphNamedStyleType } from "./utils";
+
+/**
+ * Glyph types that render as bullets rather than numbers or letters.
+ */
+const UNORDERED_GLYPH_TYPES = new Set(["GLYPH_TYPE_UNSPECIFIED", "NONE"]);
+
+/**
+ * Heading levels of the named styles that map to document headings.
+ */
+const HEADING_LEVELS: Record<string, number> = {
+  TITLE: 1,
+  SUBTITLE: 2,
+  HEADING_1: 1,
+  HEADING_2: 2,
+  HEADING_3: 3,
+  HEADING_4: 4,
+  HEADING_5: 5,
+  HEADING_6: 6,
+};
+
+/**
+ * A list item together with the list nested under it, if any.
+ */
+export interface ListBlockItem {
+  content: RichText;
+  children: ListBlock | null;
+}
+
+/**
+ * A bulleted or numbered list.
+ */
+export interface ListBlock {
+  type: "list";
+  ordered: boolean;
+  items: ListBlockItem[];
+}
+
+/**
+ * A format-neutral representation of document content, shared by the output renderers.
+ */
+export type Block =
+  | { type: "heading"; level: number; content: RichText }
+  | { type: "paragraph"; content: RichText }
+  | ListBlock
+  | { type: "table"; rows: RichText[][] };
+
+/**
+ * Checks whether a list level is numbered (decimal, alphabetic, or roman glyphs).
+ *
+ * @param lists - The document's list definitions.
+ * @param listId - The list ID of the bullet.
+ * @param level - The bullet's nesting level.
+ * @returns `true` if the level uses an ordered glyph type.
+ */
+function isOrderedLevel(
+  lists: Record<string, docs_v1.Schema$List>,
+  listId: string | null | undefined,
+  level: number
+): boolean {
+  if (!listId) return false;
+  const nestingLevel = lists[listId]?.listProperties?.nestingLevels?.[level];
+  const glyphType = nestingLevel?.glyphType;
+  return !!glyphType && !UNORDERED_GLYPH_TYPES.has(glyphType);
+}
+
+/**
+ * Converts a table into rows of rich text cells, joining a cell's paragraphs with spaces.
+ *
+ * @param table - The raw table object from the API.
+ * @returns The table as an array of rows, each an array of cells.
+ */
+function extractTableRichText(table: docs_v1.Schema$Table): RichText[][] {
+  return (table.tableRows ?? []).map((row) =>
+    (row.tableCells ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map((element) =>
+          element.paragraph ? extractRichText(element.paragraph) : []
+        )
+        .filter((spans) => spans.length > 0)
+        .flatMap((spans, index) =>
+          index === 0 ? spans : [{ text: " " }, ...spans]
+        )
+    )
+  );
+}
+
+/**
+ * Converts structural elements into blocks.
+ *
+ * - **Headings:** Paragraphs with a heading style (TITLE → 1, SUBTITLE → 2, HEADING_n → n).
+ * - **Lists:** Consecutive bulleted paragraphs sharing a `listId`, nested by nesting level.
+ *   A level is numbered when its glyph type in `lists` is ordered.
+ * - **Tables:** Each table becomes rows of rich text cells.
+ * - **Paragraphs:** Everything else. Empty paragraphs are dropped.
+ *
+ * @param elementList - The structural elements to convert.
+ * @param lists - The document's list definitions (`doc.lists`).
+ * @returns The content as an array of blocks.
+ */
+export function buildBlocks(
+  elementList: docs_v1.Schema$StructuralElement[],
+  lists: Record<string, docs_v1.Schema$List> = {}
+): Block[] {
+  const blocks: Block[] = [];
+  let listId: string | null | undefined;
+  let stack: Array<{ level: number; list: ListBlock }> = [];
+
+  for (const element of elementList) {
+    if (element.table) {
+      stack = [];
+      blocks.push({ type: "table", rows: extractTableRichText(element.table) });
+      continue;
+    }
+
+    const paragraph = element.paragraph;
+    if (!paragraph) continue;
+    const content = extractRichText(paragraph);
+    if (content.length === 0) continue;
+
+    const bullet = paragraph.bullet;
+    if (!bullet) {
+      stack = [];
+      const style = getParagraphNamedStyleType(paragraph);
+      const level = style ? HEADING_LEVELS[style] : undefined;
+      blocks.push(
+        level ? { type: "heading", level, content } : { type: "paragraph", content }
+      );
+      continue;
+    }
+
+    if (bullet.listId !== listId) stack = [];
+    listId = bullet.listId;
+    const level = bullet.nestingLevel ?? 0;
+    const item: ListBlockItem = { content, children: null };
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top && top.level <= level) break;
+      stack.pop();
+    }
+
+    const top = stack[stack.length - 1];
+    if (top && top.level === level) {
+      top.list.items.push(item);
+      continue;
+    }
+
+    const parentItem = top?.list.items[top.list.items.length - 1];
+    let list = parentItem?.children;
+    if (!list) {
+      list = {
+        type: "list",
+        ordered: isOrderedLevel(lists, listId, level),
+        items: [],
+      };
+      if (parentItem) {
+        parentItem.children = list;
+      } else {
+        blocks.push(list);
+      }
+    }
+    list.items.push(item);
+    stack.push({ level, list });
+  }
+
+  return blocks;
+}
+
+/**
+ * Collects the structural elements of a text block section.
+ *
+ * Paragraphs and tables are collected until a boundary is encountered; empty
+ * paragraphs and other elements (e.g., section breaks) are skipped.
+ *
+ * **Stop Conditions:**
+ * 1. **New Section:** The cursor reaches a paragraph that marks the start of a new section defined in the schema.
+ * 2. **Heading:** The cursor reaches any paragraph with a named heading style.
+ *
+ * @param cursor - The cursor traversing the document elements.
+ * @returns The collected elements, in document order.
+ */
+export function collectBlockElements(
+  cursor: ParagraphCursor
+): docs_v1.Schema$StructuralElement[] {
+  const elementList: docs_v1.Schema$StructuralElement[] = [];
+
+  while (!cursor.isEndOfDocument()) {
+    const table = cursor.getCurrentTable();
+    if (table) {
+      elementList.push({ table });
+      cursor.getNextParagraph();
+      continue;
+    }
+
+    const info = cursor.getCurrentParagraph();
+    if (!info) {
+      cursor.getNextParagraph();
+      continue;
+    }
+
+    if (cursor.isAtNewSection()) break;
+    if (cursor.isAtParagraphHeading()) break;
+
+    elementList.push({ paragraph: info.paragraph });
+    cursor.getNextParagraph();
+  }
+  return elementList;
+}
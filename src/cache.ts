@@ -0,0 +1,355 @@
+import type { ParseSchema } from "./types";
+import { isStandardSchema } from "./standardSchema";
+import { runWithSignal, RequestSignalOptions } from "./signal";
+
+/**
+ * A key-value store for cached documents and parse results (e.g., Cloudflare KV, Redis).
+ * Values are opaque strings; `ttlSeconds` is how long the entry is worth keeping.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null | undefined> | string | null | undefined;
+  set(key: string, value: string, ttlSeconds: number): Promise<void> | void;
+}
+
+/**
+ * Options for caching `getParsedDocument` calls.
+ */
+export interface CacheOptions {
+  /** Where entries are stored. Defaults to an in-memory LRU store shared by all calls. */
+  store?: CacheStore;
+  /** How long an entry is served without contacting the API, in seconds (default `60`). */
+  ttl?: number;
+  /**
+   * How long an expired entry may still be served while it is refreshed in the
+   * background, in seconds (default `0`).
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * What is cached:
+   * - `"result"` (default): The parsed result, keyed by document ID and schema.
+   *   Results must be JSON-serializable (`Date` values are preserved).
+   * - `"document"`: The raw document, keyed by document ID and parsed on every call.
+   */
+  mode?: "result" | "document";
+  /**
+   * Keeps background refreshes alive after the response is sent
+   * (e.g., `ctx.waitUntil` in Cloudflare Workers).
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+  /**
+   * Separates the entries of callers sharing a store (e.g., a tenant ID). Defaults to
+   * the identity of the credentials (service account email, access token, or client
+   * object), so callers with different credentials never share an entry.
+   */
+  namespace?: string;
+}
+
+/**
+ * Options shared by the Node.js and Edge entry points for caching.
+ */
+export interface CacheControlOptions {
+  /**
+   * Caches documents or parse results. `true` uses the default `CacheOptions`.
+   * Disabled by default.
+   */
+  cache?: boolean | CacheOptions;
+}
+
+/**
+ * A cached document or parse result, as stored (JSON-encoded) in a `CacheStore`.
+ */
+interface CacheEntry {
+  /** The `revisionId` of the document the value was built from. */
+  revisionId: string | null;
+  /** When the document was fetched, as a Unix timestamp in milliseconds. */
+  fetchedAt: number;
+  value: unknown;
+}
+
+/**
+ * Options for creating an in-memory LRU cache store.
+ */
+export interface LruCacheStoreOptions {
+  /** The maximum number of entries; the least recently used entry is evicted first (default `100`). */
+  maxEntries?: number;
+}
+
+/**
+ * Creates a process-local `CacheStore` that evicts the least recently used entry
+ * once `maxEntries` is reached.
+ *
+ * Entries are also dropped lazily once their TTL has elapsed.
+ */
+export function createLruCacheStore(
+  options: LruCacheStoreOptions = {}
+): CacheStore {
+  const { maxEntries = 100 } = options;
+  // A Map iterates in insertion order, so re-inserting on access keeps the
+  // least recently used entry first.
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
+
+/**
+ * The default store shared by all calls in this process or isolate.
+ */
+const defaultCacheStore = createLruCacheStore();
+
+/**
+ * Pending refreshes by store and key, used to dedupe concurrent API calls. Each
+ * store has its own map, so a refresh only writes to the store it was started for.
+ */
+const inflightRefreshes = new WeakMap<
+  CacheStore,
+  Map<string, Promise<CacheEntry>>
+>();
+
+/**
+ * Returns the pending refreshes of a store, creating the map on first use.
+ */
+function getInflightRefreshes(
+  store: CacheStore
+): Map<string, Promise<CacheEntry>> {
+  let refreshes = inflightRefreshes.get(store);
+  if (!refreshes) {
+    refreshes = new Map();
+    inflightRefreshes.set(store, refreshes);
+  }
+  return refreshes;
+}
+
+/**
+ * Identifies objects that cannot be serialized by value (clients, functions).
+ */
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+/**
+ * Returns a process-local identity for an object, assigning a new one on first use.
+ *
+ * @param value - The object to identify.
+ * @returns A number unique to the object within this process.
+ */
+export function getObjectId(value: object): number {
+  let id = objectIds.get(value);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Distinguishes the object identities of this process from those of other processes
+ * sharing a store, since `getObjectId` numbers restart in every process.
+ */
+const PROCESS_ID = Math.random().toString(36).slice(2);
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal schemas produce
+ * equal strings.
+ *
+ * Functions (e.g., `coerce` functions), patterns (`match`), and `validate`
+ * validators are serialized by identity (see `getObjectId`): closures with the same
+ * source may capture different values, and validators are library objects (possibly
+ * cyclic). Schemas defined once share entries; entries are not shared across processes.
+ */
+function stableStringify(value: unknown): string {
+  if (
+    typeof value === "function" ||
+    value instanceof RegExp ||
+    isStandardSchema(value)
+  ) {
+    return JSON.stringify(`~ref:${PROCESS_ID}:${getObjectId(value)}`);
+  }
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hashes a string with the 53-bit cyrb53 algorithm (not cryptographic).
+ *
+ * @returns The hash as a hexadecimal string.
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Builds the cache key for a document, and in `"result"` mode for the schema and
+ * parse options used.
+ *
+ * @param documentId - The document ID.
+ * @param parseSchema - The schema used for parsing.
+ * @param mode - What is cached.
+ * @param parseOptions - Options that change the parsed result (e.g., `diagnostics`).
+ * @param namespace - The caller's namespace or credential identity (stored hashed).
+ * @returns The cache key.
+ */
+export function getCacheKey(
+  documentId: string,
+  parseSchema: ParseSchema,
+  mode: "result" | "document",
+  parseOptions: Record<string, unknown> = {},
+  namespace = ""
+): string {
+  const prefix = `google-docs-parser:${mode}:${
+    namespace ? `${hashString(namespace)}:` : ""
+  }${documentId}`;
+  if (mode === "document") return prefix;
+  const hash = hashString(stableStringify({ parseSchema, parseOptions }));
+  return `${prefix}:${hash}`;
+}
+
+/**
+ * Encodes a cache entry as JSON, preserving `Date` values.
+ */
+function serializeEntry(entry: CacheEntry): string {
+  return JSON.stringify(
+    entry,
+    function (this: Record<string, unknown>, key, value: unknown) {
+      const raw = this[key];
+      return raw instanceof Date ? { $date: raw.toISOString() } : value;
+    }
+  );
+}
+
+/**
+ * Parses a stored cache entry, returning `null` for malformed values.
+ */
+function readEntry(raw: string | null | undefined): CacheEntry | null {
+  if (!raw) return null;
+  try {
+    const entry = JSON.parse(raw, (_key, value: unknown) =>
+      value &&
+      typeof value === "object" &&
+      typeof (value as { $date?: unknown }).$date === "string" &&
+      Object.keys(value).length === 1
+        ? new Date((value as { $date: string }).$date)
+        : value
+    ) as CacheEntry;
+    return typeof entry.fetchedAt === "number" ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a parse result from the cache, or fetches, parses, and caches it.
+ *
+ * - Entries younger than `ttl` are served without contacting the API.
+ * - Entries younger than `ttl + staleWhileRevalidate` are served while a refresh
+ *   runs in the background (refresh errors are ignored; the entry stays stale).
+ * - On refresh, the document is always downloaded again; one whose `revisionId` is
+ *   unchanged is not parsed again.
+ * - Concurrent refreshes of the same key in the same store share a single API call. The shared call
+ *   is not tied to any caller's signal; each caller stops waiting when its own
+ *   `signal` aborts or its `timeout` elapses.
+ *
+ * @template D - The document type.
+ * @template T - The parse result type.
+ * @param key - The cache key (see `getCacheKey`).
+ * @param fetchDocument - Fetches the document, without the caller's signal or timeout.
+ * @param parse - Parses a document; errors are thrown and nothing is cached.
+ * @param options - Cache options.
+ * @param signalOptions - The caller's signal and timeout.
+ * @returns The parse result.
+ * @throws The abort reason: `signal.reason`, or a `DocsTimeoutError` for the timeout.
+ */
+export async function getCachedResult<
+  D extends { revisionId?: string | null },
+  T,
+>(
+  key: string,
+  fetchDocument: () => Promise<D>,
+  parse: (doc: D) => T,
+  options: CacheOptions,
+  signalOptions: RequestSignalOptions = {}
+): Promise<T> {
+  const {
+    store = defaultCacheStore,
+    ttl = 60,
+    staleWhileRevalidate = 0,
+    mode = "result",
+    waitUntil,
+  } = options;
+  const toResult = (entry: CacheEntry): T =>
+    mode === "document" ? parse(entry.value as D) : (entry.value as T);
+
+  const refreshes = getInflightRefreshes(store);
+  const refresh = (previous: CacheEntry | null): Promise<CacheEntry> => {
+    const inflight = refreshes.get(key);
+    if (inflight) return inflight;
+
+    const request = (async () => {
+      const doc = await fetchDocument();
+      const revisionId = doc.revisionId ?? null;
+      const isUnchanged =
+        revisionId !== null && previous?.revisionId === revisionId;
+      const entry: CacheEntry = {
+        revisionId,
+        fetchedAt: Date.now(),
+        value:
+          mode === "document" ? doc : isUnchanged ? previous.value : parse(doc),
+      };
+      await store.set(key, serializeEntry(entry), ttl + staleWhileRevalidate);
+      return entry;
+    })();
+
+    refreshes.set(key, request);
+    return request.finally(() => refreshes.delete(key));
+  };
+
+  const cached = readEntry(await store.get(key));
+  const age = cached ? (Date.now() - cached.fetchedAt) / 1000 : Infinity;
+
+  if (cached && age < ttl) return toResult(cached);
+  if (cached && age < ttl + staleWhileRevalidate) {
+    const background = refresh(cached).catch(() => undefined);
+    waitUntil?.(background);
+    return toResult(cached);
+  }
+  return toResult(await runWithSignal(() => refresh(cached), signalOptions));
+}
@@ -0,0 +1,440 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import type { docs_v1 } from "googleapis";
+import { ParseSchema } from "./types";
+import {
+  getParsedDocument,
+  loadDocument,
+  GetParsedDocumentOptions,
+} from "./parser";
+import { parseDocument } from "./document";
+import { toMarkdown } from "./markdown";
+import { inferSchema, formatSchemaModule } from "./infer";
+import type { ParseDiagnostic } from "./diagnostics";
+import {
+  DocsApiError,
+  MissingNodeError,
+  MissingSectionError,
+  SchemaValidationError,
+} from "./errors";
+
+/**
+ * The process exit codes of the CLI.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** An unexpected error (e.g., a coercion failure or an unreadable file). */
+  error: 1,
+  /** Invalid arguments, or a schema module that is missing or fails `validateSchema`. */
+  usage: 2,
+  /** A section or tree node marked `required` is missing. */
+  missingRequired: 3,
+  /** The Google Docs API call failed (auth, permission, not found, ...). */
+  api: 4,
+} as const;
+
+/**
+ * The output formats of the CLI.
+ */
+export type CliFormat = "json" | "yaml" | "markdown";
+
+/**
+ * Where the CLI writes its output; `process.stdout`/`process.stderr` by default.
+ */
+export interface CliIo {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+const USAGE = `Usage: google-docs-parser <documentId | dump.json> [options]
+       google-docs-parser infer <documentId | dump.json> [--export <name> | --format json]
+
+Fetches a Google Doc (or reads a local JSON dump of one) and prints the parsed result.
+The infer command prints a starter schema for the document instead: a TypeScript
+module by default, or JSON (loadable with --schema) with --format json.
+
+Options:
+  -s, --schema <path>       JavaScript module (default or "schema" export) or JSON file
+                            holding the ParseSchema; compile TypeScript schemas first
+      --export <name>       Name of the schema export to use instead (infer: to write)
+  -f, --format <format>     Output format: json (default), yaml, or markdown
+      --diagnostics         Print parse diagnostics to stderr
+      --raw                 Print the document itself instead of parsing it
+      --credentials <path>  Service Account key file (default: GOOGLE_APPLICATION_CREDENTIALS)
+  -h, --help                Show this help
+
+Exit codes:
+  0  success
+  1  unexpected error
+  2  invalid arguments or an invalid schema
+  3  a required section or tree node is missing
+  4  the Google Docs API call failed
+`;
+
+/**
+ * An invalid command line or schema module.
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * Loads the schema exported by a JavaScript module (or a JSON file).
+ *
+ * TypeScript modules are rejected: Node.js cannot import them without a compile
+ * step, so they would fail with an unrelated syntax error.
+ *
+ * @param path - The module path, relative to the working directory.
+ * @param exportName - The export to use; defaults to `default`, then `schema`.
+ * @returns The schema.
+ * @throws {CliUsageError} If the path is a TypeScript file or the module has no matching export.
+ */
+async function loadSchema(
+  path: string,
+  exportName: string | undefined
+): Promise<ParseSchema> {
+  const absolutePath = resolve(path);
+  if (/\.[cm]?ts$/.test(absolutePath)) {
+    throw new CliUsageError(
+      `Cannot load the TypeScript schema ${path}. Compile it to JavaScript, or write the schema as JSON with "infer --format json".`
+    );
+  }
+  if (absolutePath.endsWith(".json")) {
+    return JSON.parse(await readFile(absolutePath, "utf8")) as ParseSchema;
+  }
+  const moduleExports = (await import(
+    pathToFileURL(absolutePath).href
+  )) as Record<string, unknown>;
+  const schema = exportName
+    ? moduleExports[exportName]
+    : (moduleExports.default ?? moduleExports.schema);
+  if (!schema || typeof schema !== "object" || !("sections" in schema)) {
+    const name = exportName ? `"${exportName}"` : `"default" or "schema"`;
+    throw new CliUsageError(`No schema export ${name} found in ${path}.`);
+  }
+  return schema as ParseSchema;
+}
+
+/**
+ * Matches a JavaScript identifier, as written by `infer` in `export const <name>`.
+ */
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Matches the YAML 1.2 int and float forms (e.g., `.5`, `0x1F`, `.inf`), which
+ * a YAML reader loads as numbers.
+ */
+const YAML_NUMBER =
+  /^(?:[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?|0o[0-7]+|0x[0-9a-fA-F]+|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/;
+
+/**
+ * Formats a scalar for YAML, quoting strings that would otherwise be read as
+ * another type or break the syntax.
+ */
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "string") return String(value);
+  const isPlain =
+    /^[A-Za-z_./][\w ./()@-]*$/.test(value) &&
+    !/ $/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|~)$/i.test(value) &&
+    !YAML_NUMBER.test(value);
+  return isPlain ? value : JSON.stringify(value);
+}
+
+/**
+ * Returns whether a value is written on its own lines in YAML.
+ */
+function isYamlBlock(value: unknown): value is object {
+  if (Array.isArray(value)) return value.length > 0;
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    Object.keys(value).length > 0
+  );
+}
+
+/**
+ * Serializes a parse result (or document) as YAML.
+ *
+ * @param value - A JSON-compatible value; `Date` values are written as ISO strings.
+ * @param indent - The indentation of nested lines.
+ * @returns The YAML lines.
+ */
+export function formatYaml(value: unknown, indent = ""): string {
+  if (!isYamlBlock(value)) {
+    if (Array.isArray(value)) return "[]";
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return "{}";
+    }
+    return formatYamlScalar(value);
+  }
+  const entryList = Array.isArray(value)
+    ? value.map((item) => ["-", item] as const)
+    : Object.entries(value).map(
+        ([key, item]) => [`${formatYamlScalar(key)}:`, item] as const
+      );
+  return entryList
+    .map(([prefix, item]) => {
+      if (!isYamlBlock(item)) return `${indent}${prefix} ${formatYaml(item)}`;
+      // Sequence items start their first mapping entry on the dash line.
+      if (prefix === "-" && !Array.isArray(item)) {
+        return `${indent}- ${formatYaml(item, `${indent}  `).trimStart()}`;
+      }
+      return `${indent}${prefix}\n${formatYaml(item, `${indent}  `)}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a value as Markdown list items.
+ */
+function formatMarkdownValue(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        isYamlBlock(item)
+          ? `${indent}-\n${formatMarkdownValue(item, `${indent}  `)}`
+          : `${indent}- ${formatMarkdownText(item)}`
+      )
+      .join("\n");
+  }
+  if (isYamlBlock(value)) {
+    return Object.entries(value)
+      .map(([key, item]) =>
+        isYamlBlock(item)
+          ? `${indent}- **${key}**:\n${formatMarkdownValue(item, `${indent}  `)}`
+          : `${indent}- **${key}**: ${formatMarkdownText(item)}`
+      )
+      .join("\n");
+  }
+  return `${indent}${formatMarkdownText(value)}`;
+}
+
+/**
+ * Renders a scalar as Markdown text.
+ */
+function formatMarkdownText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Renders a parse result as Markdown: one `##` heading per section, with strings as
+ * paragraphs and lists, objects, and tree nodes as (nested) bullet lists.
+ *
+ * @param result - The parse result.
+ * @returns The Markdown text.
+ */
+export function formatMarkdown(result: Record<string, unknown>): string {
+  return Object.entries(result)
+    .map(([name, value]) => `## ${name}\n\n${formatMarkdownValue(value, "")}`)
+    .join("\n\n");
+}
+
+/**
+ * Reads a document from a JSON dump (a path ending in `.json`) or fetches it by ID.
+ */
+async function readDocument(
+  input: string,
+  options: GetParsedDocumentOptions
+): Promise<docs_v1.Schema$Document> {
+  if (input.endsWith(".json")) {
+    return JSON.parse(await readFile(resolve(input), "utf8"));
+  }
+  return loadDocument(input, options);
+}
+
+/**
+ * Formats a diagnostic as a single line for stderr.
+ */
+function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  const location =
+    diagnostic.index === undefined ? "" : ` (element ${diagnostic.index})`;
+  return `${diagnostic.code}${location}: ${diagnostic.message}`;
+}
+
+/**
+ * Formats an error for stderr, listing schema issues one per line.
+ */
+function formatError(error: unknown): string {
+  if (error instanceof SchemaValidationError) {
+    const issues = error.issues.map(
+      (issue) => `  ${issue.path}: ${issue.message} [${issue.code}]`
+    );
+    return ["Invalid parse schema:", ...issues].join("\n");
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Maps an error to the CLI exit code.
+ */
+function getExitCode(error: unknown): number {
+  if (
+    error instanceof CliUsageError ||
+    error instanceof SchemaValidationError ||
+    isParseArgsError(error)
+  ) {
+    return EXIT_CODES.usage;
+  }
+  if (
+    error instanceof MissingSectionError ||
+    error instanceof MissingNodeError
+  ) {
+    return EXIT_CODES.missingRequired;
+  }
+  if (error instanceof DocsApiError) return EXIT_CODES.api;
+  return EXIT_CODES.error;
+}
+
+/**
+ * Runs the `google-docs-parser` command.
+ *
+ * The input is a document ID, fetched with `getParsedDocument`, or a path ending in
+ * `.json` holding a `docs_v1.Schema$Document` dump, parsed offline with `parseDocument`.
+ * `infer <input>` prints the `inferSchema` result as a TypeScript module instead.
+ * Errors are written to stderr and reported through the exit code instead of thrown.
+ *
+ * @param argv - The arguments, without the `node` and script paths.
+ * @param io - Where output is written.
+ * @returns The exit code (see `EXIT_CODES`).
+ */
+export async function runCli(
+  argv: readonly string[],
+  io: CliIo = process
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        schema: { type: "string", short: "s" },
+        export: { type: "string" },
+        format: { type: "string", short: "f" },
+        diagnostics: { type: "boolean", default: false },
+        raw: { type: "boolean", default: false },
+        credentials: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+
+    if (values.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.success;
+    }
+    const isInfer = positionals[0] === "infer";
+    const [input, ...extraList] = isInfer ? positionals.slice(1) : positionals;
+    if (!input || extraList.length > 0) {
+      throw new CliUsageError("Expected exactly one document ID or JSON file.");
+    }
+    const options = {
+      ...(values.credentials && {
+        credentials: await readFile(resolve(values.credentials), "utf8"),
+      }),
+    };
+
+    if (isInfer) {
+      const exportName = values.export ?? "schema";
+      if (!IDENTIFIER.test(exportName)) {
+        throw new CliUsageError(
+          `Invalid export name "${exportName}". Use a JavaScript identifier.`
+        );
+      }
+      if (values.format !== undefined && values.format !== "json") {
+        throw new CliUsageError(
+          `Unknown infer format "${values.format}". Use json, or omit --format for a TypeScript module.`
+        );
+      }
+      const schema = inferSchema(await readDocument(input, options));
+      io.stdout.write(
+        values.format === "json"
+          ? `${JSON.stringify(schema, null, 2)}\n`
+          : formatSchemaModule(schema, exportName)
+      );
+      return EXIT_CODES.success;
+    }
+    const format = (values.format ?? "json") as CliFormat;
+    if (!["json", "yaml", "markdown"].includes(format)) {
+      throw new CliUsageError(
+        `Unknown format "${format}". Use json, yaml, or markdown.`
+      );
+    }
+    if (!values.raw && !values.schema) {
+      throw new CliUsageError("--schema is required unless --raw is set.");
+    }
+
+    let output: string;
+    if (values.raw) {
+      const doc = await readDocument(input, options);
+      output =
+        format === "markdown"
+          ? toMarkdown(doc)
+          : format === "yaml"
+            ? formatYaml(doc)
+            : JSON.stringify(doc, null, 2);
+    } else {
+      const schema = await loadSchema(values.schema as string, values.export);
+      const report = input.endsWith(".json")
+        ? parseDocument(await readDocument(input, options), schema, {
+            validateSchema: true,
+            diagnostics: true,
+          })
+        : await getParsedDocument(input, schema, {
+            ...options,
+            validateSchema: true,
+            diagnostics: true,
+          });
+      if (values.diagnostics) {
+        for (const diagnostic of report.diagnostics) {
+          io.stderr.write(`${formatDiagnostic(diagnostic)}\n`);
+        }
+      }
+      const result = report.result as Record<string, unknown>;
+      // Reports list missing required sections instead of throwing.
+      const missingRequired = schema.sections.find(
+        (section) =>
+          section.required &&
+          section.title.name &&
+          !Object.hasOwn(result, section.title.name)
+      );
+      if (missingRequired) {
+        throw new MissingSectionError(missingRequired.title.name as string);
+      }
+      output =
+        format === "markdown"
+          ? formatMarkdown(result)
+          : format === "yaml"
+            ? formatYaml(result)
+            : JSON.stringify(result, null, 2);
+    }
+
+    io.stdout.write(`${output}\n`);
+    return EXIT_CODES.success;
+  } catch (error) {
+    io.stderr.write(`Error: ${formatError(error)}\n`);
+    const exitCode = getExitCode(error);
+    if (
+      exitCode === EXIT_CODES.usage &&
+      !(error instanceof SchemaValidationError)
+    ) {
+      io.stderr.write(`\n${USAGE}`);
+    }
+    return exitCode;
+  }
+}
+
+/**
+ * Returns whether an error was thrown by `parseArgs` for an invalid command line.
+ */
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS_");
+}
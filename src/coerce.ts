@@ -0,0 +1,151 @@
+import { Coercion, FieldCoercionMap, Schema } from "./types";
+import { CoercionError } from "./errors";
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "on", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "off", "0"]);
+
+/**
+ * Matches ISO 8601 dates with an optional time and timezone (e.g., `2024-05-01`, `2024-05-01T09:30:00Z`).
+ */
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Describes where a value came from, for error reporting.
+ */
+export interface CoercionContext {
+  field: string;
+  text: string;
+}
+
+/**
+ * Type Guard to distinguish a per-field coercion map from a single `Coercion`.
+ *
+ * @param coerce - The `coerce` option of a schema.
+ * @returns `true` if the option maps field names to coercions.
+ */
+export function isFieldCoercionMap(
+  coerce: Coercion | FieldCoercionMap
+): coerce is FieldCoercionMap {
+  if (typeof coerce !== "object") return false;
+  return !Array.isArray((coerce as { enum?: unknown }).enum);
+}
+
+/**
+ * Resolves the coercion that applies to a given field.
+ *
+ * @param schema - The schema holding the `coerce` option.
+ * @param field - The field name. If omitted, only a single (non-map) coercion applies.
+ * @returns The coercion, or `undefined` if the value should stay a string.
+ */
+export function resolveCoercion(
+  schema: Schema,
+  field?: string
+): Coercion | undefined {
+  const { coerce } = schema;
+  if (!coerce) return undefined;
+  if (!isFieldCoercionMap(coerce)) return coerce;
+  if (field === undefined || !Object.hasOwn(coerce, field)) return undefined;
+  return coerce[field];
+}
+
+/**
+ * Converts a single string value according to a coercion.
+ *
+ * @param value - The trimmed string value.
+ * @param coercion - The coercion to apply.
+ * @param context - The field and paragraph text, used in error messages.
+ * @returns The converted value.
+ * @throws {CoercionError} If the value cannot be converted.
+ */
+export function coerceValue(
+  value: string,
+  coercion: Coercion,
+  context: CoercionContext
+): unknown {
+  const fail = (message: string, cause?: unknown): never => {
+    throw new CoercionError(
+      message,
+      { ...context, value },
+      cause === undefined ? undefined : { cause }
+    );
+  };
+
+  if (typeof coercion === "function") {
+    try {
+      return coercion(value);
+    } catch (error) {
+      return fail(
+        `Custom coercion failed for "${value}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error
+      );
+    }
+  }
+
+  if (typeof coercion === "object") {
+    if (!coercion.enum.includes(value)) {
+      fail(
+        `Cannot coerce "${value}" to one of [${coercion.enum.join(", ")}]`
+      );
+    }
+    return value;
+  }
+
+  switch (coercion) {
+    case "string":
+      return value;
+    case "number":
+    case "integer": {
+      const num = value.trim() === "" ? NaN : Number(value);
+      if (!Number.isFinite(num)) fail(`Cannot coerce "${value}" to ${coercion}`);
+      if (coercion === "integer" && !Number.isInteger(num)) {
+        fail(`Cannot coerce "${value}" to integer`);
+      }
+      return num;
+    }
+    case "boolean": {
+      const normalized = value.toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return fail(`Cannot coerce "${value}" to boolean`);
+    }
+    case "date": {
+      const date = new Date(value);
+      if (!ISO_DATE_PATTERN.test(value) || Number.isNaN(date.getTime())) {
+        fail(`Cannot coerce "${value}" to an ISO date`);
+      }
+      return date;
+    }
+    case "url": {
+      try {
+        return new URL(value).href;
+      } catch (error) {
+        return fail(`Cannot coerce "${value}" to URL`, error);
+      }
+    }
+    default:
+      return fail(`Unknown coercion "${String(coercion)}"`);
+  }
+}
+
+/**
+ * Coerces a `keys` field value, mapping empty values to `null` for built-in coercions.
+ *
+ * @param value - The field value (possibly empty).
+ * @param coercion - The coercion for this field, if any.
+ * @param context - The field and paragraph text, used in error messages.
+ * @returns The converted value, the original string, or `null`.
+ */
+export function coerceFieldValue(
+  value: string,
+  coercion: Coercion | undefined,
+  context: CoercionContext
+): unknown {
+  if (!coercion) return value;
+  if (value === "" && typeof coercion !== "function" && coercion !== "string") {
+    return null;
+  }
+  return coerceValue(value, coercion, context);
+}
@@ -0,0 +1,137 @@
+import type { ParsedDocumentResult } from "./batch";
+
+/**
+ * The MIME type of Google Docs files in Google Drive.
+ */
+const DOCUMENT_MIME_TYPE = "application/vnd.google-apps.document";
+
+/**
+ * The Drive `files.list` fields requested for each page.
+ */
+export const DRIVE_LIST_FIELDS = "nextPageToken, files(id, name, modifiedTime)";
+
+/**
+ * The start of the error message when listing a folder fails.
+ */
+export const DRIVE_ERROR_CONTEXT =
+  "Google Drive API call failed. Check the folder ID and that it is shared with the Service Account.";
+
+/**
+ * A Google Doc listed in a Drive folder.
+ */
+export interface DriveFile {
+  id: string;
+  name: string;
+  /** The last modification time (RFC 3339). */
+  modifiedTime: string;
+}
+
+/**
+ * Options for listing the documents of a Drive folder.
+ */
+export interface FolderListOptions {
+  /** Keeps only documents whose name matches. */
+  namePattern?: RegExp;
+  /** Keeps only documents modified after this time. */
+  modifiedAfter?: Date | string;
+  /** Keeps only documents modified before this time. */
+  modifiedBefore?: Date | string;
+  /** The Drive sort order (default `"modifiedTime desc"`, newest first). */
+  orderBy?: string;
+  /**
+   * What to do when a document fails to fetch or parse:
+   * `"throw"` (default) rejects with its error, `"skip"` leaves it out.
+   */
+  onError?: "throw" | "skip";
+}
+
+/**
+ * A parsed document of a Drive folder.
+ */
+export interface CollectionEntry<T> {
+  id: string;
+  name: string;
+  /** The last modification time (RFC 3339). */
+  modifiedTime: string;
+  data: T;
+}
+
+/**
+ * Quotes a value for a Drive search query.
+ */
+function quoteQueryValue(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Builds the Drive search query for the (non-trashed) Google Docs in a folder.
+ *
+ * @param folderId - The ID of the Drive folder.
+ * @param options - The modification time filters.
+ * @returns The `q` parameter for `files.list`.
+ */
+export function buildFolderQuery(
+  folderId: string,
+  options: FolderListOptions = {}
+): string {
+  const clauseList = [
+    `${quoteQueryValue(folderId)} in parents`,
+    `mimeType = ${quoteQueryValue(DOCUMENT_MIME_TYPE)}`,
+    "trashed = false",
+  ];
+  if (options.modifiedAfter !== undefined) {
+    const time = new Date(options.modifiedAfter).toISOString();
+    clauseList.push(`modifiedTime > ${quoteQueryValue(time)}`);
+  }
+  if (options.modifiedBefore !== undefined) {
+    const time = new Date(options.modifiedBefore).toISOString();
+    clauseList.push(`modifiedTime < ${quoteQueryValue(time)}`);
+  }
+  return clauseList.join(" and ");
+}
+
+/**
+ * Applies the `namePattern` filter, which the Drive query language cannot express.
+ *
+ * @param fileList - The listed documents.
+ * @param options - The list options.
+ * @returns The documents to parse.
+ */
+export function filterFolderFiles(
+  fileList: DriveFile[],
+  options: FolderListOptions = {}
+): DriveFile[] {
+  const { namePattern } = options;
+  if (!namePattern) return fileList;
+  return fileList.filter((file) => {
+    // Reset `lastIndex` so global/sticky patterns test each name from the start.
+    namePattern.lastIndex = 0;
+    return namePattern.test(file.name);
+  });
+}
+
+/**
+ * Pairs listed documents with their parse results.
+ *
+ * @param fileList - The listed documents.
+ * @param resultList - The parse results, in the order of `fileList`.
+ * @param onError - Whether to throw the first failure or skip failed documents.
+ * @returns The parsed entries, in the order of `fileList`.
+ * @throws The error of the first failed document when `onError` is `"throw"`.
+ */
+export function toCollectionEntries<T>(
+  fileList: DriveFile[],
+  resultList: ParsedDocumentResult<T>[],
+  onError: "throw" | "skip" = "throw"
+): CollectionEntry<T>[] {
+  const entryList: CollectionEntry<T>[] = [];
+  fileList.forEach((file, index) => {
+    const result = resultList[index];
+    if (result?.status === "fulfilled") {
+      entryList.push({ ...file, data: result.value });
+    } else if (result && onError === "throw") {
+      throw result.reason;
+    }
+  });
+  return entryList;
+}
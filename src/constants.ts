@@ -23,3 +23,17 @@ export type ValidNamedStyle = (typeof VALID_NAMED_STYLES)[number];
  * This is primarily used in type guards to verify if a style string is a valid heading.
  */
 export const VALID_NAMED_STYLES_SET = new Set<string>(VALID_NAMED_STYLES);
+
+/**
+ * Matches font family names that render as monospace (e.g., "Courier New", "Roboto Mono", "Consolas").
+ * Text runs using these fonts are marked as `code` in rich text output.
+ */
+export const MONOSPACE_FONT_PATTERN =
+  /mono|courier|consolas|inconsolata|source code|fira code/i;
+
+/**
+ * Matches emoji code points, including skin tone modifiers, flags, and the joiners
+ * and variation selectors that combine them. Removed by the `stripEmoji` title option.
+ */
+export const EMOJI_PATTERN =
+  /[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f\u20e3]/gu;
@@ -6,6 +6,7 @@ import {
   extractParagraphText,
 } from "./utils";
 import { getSectionTitle } from "./section";
+import { ParseDiagnostic, describeIgnoredElement } from "./diagnostics";
 
 /**
  * Represents a processed paragraph with extracted text and normalized style.
@@ -40,24 +41,72 @@ export function getParagraph(
  */
 export class ParagraphCursor {
   private index = 0;
+  private elementList: docs_v1.Schema$StructuralElement[];
+  private lists: Record<string, docs_v1.Schema$List> = {};
+  private diagnostics: ParseDiagnostic[] | null = null;
 
   constructor(
-    private paragraphList: docs_v1.Schema$Paragraph[],
+    paragraphList: docs_v1.Schema$Paragraph[],
     private parseSchema: ParseSchema
-  ) {}
+  ) {
+    this.elementList = paragraphList.map((paragraph) => ({ paragraph }));
+  }
+
+  /**
+   * Creates a cursor over raw structural elements (paragraphs, tables, section breaks, ...).
+   *
+   * Non-paragraph elements occupy a position but are treated like empty lines by
+   * paragraph-based parsers; table parsers can read them via `getCurrentTable`.
+   *
+   * @param elementList - The document body's structural elements.
+   * @param parseSchema - The global parsing schema.
+   * @param lists - The document's list definitions (`doc.lists`), used to tell numbered from bulleted lists.
+   * @param diagnostics - If provided, skipped content reported by parsers is appended to this array.
+   */
+  static fromStructuralElements(
+    elementList: docs_v1.Schema$StructuralElement[],
+    parseSchema: ParseSchema,
+    lists: Record<string, docs_v1.Schema$List> = {},
+    diagnostics: ParseDiagnostic[] | null = null
+  ): ParagraphCursor {
+    const cursor = new ParagraphCursor([], parseSchema);
+    cursor.elementList = elementList;
+    cursor.lists = lists;
+    cursor.diagnostics = diagnostics;
+    return cursor;
+  }
+
+  /**
+   * Retrieves the document's list definitions, keyed by `bullet.listId`.
+   *
+   * @returns The list definitions, or an empty object if none were provided.
+   */
+  getLists(): Record<string, docs_v1.Schema$List> {
+    return this.lists;
+  }
 
   /**
    * Retrieves the paragraph at the current cursor position.
    *
-   * @returns The current `Paragraph` object, or `null` if the cursor is at the end of the document or the line is empty.
+   * @returns The current `Paragraph` object, or `null` if the cursor is at the end of the document, the line is empty, or the element is not a paragraph.
    */
   getCurrentParagraph(): Paragraph | null {
     if (this.isEndOfDocument()) return null;
-    const paragraph = this.paragraphList[this.index];
+    const paragraph = this.elementList[this.index]?.paragraph;
     if (!paragraph) return null;
     return getParagraph(paragraph);
   }
 
+  /**
+   * Retrieves the table at the current cursor position.
+   *
+   * @returns The current table, or `null` if the element at the cursor is not a table.
+   */
+  getCurrentTable(): docs_v1.Schema$Table | null {
+    if (this.isEndOfDocument()) return null;
+    return this.elementList[this.index]?.table ?? null;
+  }
+
   /**
    * Advances the cursor to the next position and returns the new paragraph.
    *
@@ -69,11 +118,42 @@ export class ParagraphCursor {
     return this.getCurrentParagraph();
   }
 
+  /**
+   * Records the element at the cursor as skipped if it carries content (e.g., a table)
+   * that the current parser does not use. Does nothing unless diagnostics are collected.
+   */
+  reportIgnoredElement(): void {
+    const element = this.elementList[this.index];
+    if (!this.diagnostics || !element) return;
+    const description = describeIgnoredElement(element);
+    if (!description) return;
+    this.diagnostics.push({
+      code: "ignored-element",
+      message: `A ${description} was skipped because the section does not parse it.`,
+      index: this.index,
+    });
+  }
+
+  /**
+   * Records the paragraph at the cursor as dropped by the current parser
+   * (e.g., text before the first tree node). Does nothing unless diagnostics are collected.
+   */
+  reportOrphanParagraph(): void {
+    const info = this.getCurrentParagraph();
+    if (!this.diagnostics || !info) return;
+    this.diagnostics.push({
+      code: "orphan-paragraph",
+      message: `"${info.text}" was dropped because it does not belong to any parsed item.`,
+      index: this.index,
+      text: info.text,
+    });
+  }
+
   /**
    * Checks if the cursor has reached the end of the paragraph list.
    */
   isEndOfDocument(): boolean {
-    return this.index >= this.paragraphList.length;
+    return this.index >= this.elementList.length;
   }
 
   /**
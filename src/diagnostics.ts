@@ -0,0 +1,173 @@
+import type { docs_v1 } from "googleapis";
+import { ParseSchema, Section, Title } from "./types";
+import { getParagraph } from "./cursor";
+import {
+  hasNamedStyle,
+  matchesTitleText,
+  normalizeTitleText,
+} from "./utils";
+
+/**
+ * Identifies the kind of problem found while parsing a document.
+ *
+ * - `missing-section`: A schema section was not found in the document.
+ * - `near-match`: A paragraph almost matched a missing section (style matched but
+ *   the text was similar, or the text matched but the style did not).
+ * - `orphan-paragraph`: A paragraph inside a section was dropped by its parser
+ *   (e.g., text before the first tree node).
+ * - `ignored-element`: A non-paragraph element (e.g., a table) inside a section
+ *   was skipped because the section's content kind does not use it.
+ */
+export type ParseDiagnosticCode =
+  | "missing-section"
+  | "near-match"
+  | "orphan-paragraph"
+  | "ignored-element";
+
+/**
+ * A single problem found while parsing a document.
+ */
+export interface ParseDiagnostic {
+  code: ParseDiagnosticCode;
+  message: string;
+  /** The index of the element in `doc.body.content`, if the diagnostic refers to one. */
+  index?: number;
+  /** The text of the paragraph, if the diagnostic refers to one. */
+  text?: string;
+  /** The name of the schema section involved. */
+  section?: string;
+}
+
+/**
+ * A parse result together with the diagnostics collected while parsing.
+ */
+export interface ParseReport<T> {
+  result: T;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Describes a non-paragraph element that carries content, for diagnostics.
+ *
+ * @param element - The structural element.
+ * @returns A short description (e.g., `"table"`), or `null` for elements without
+ * content of their own (paragraphs, section breaks).
+ */
+export function describeIgnoredElement(
+  element: docs_v1.Schema$StructuralElement
+): string | null {
+  if (element.table) return "table";
+  if (element.tableOfContents) return "table of contents";
+  return null;
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Checks whether a heading text is close to a section name or one of its aliases
+ * (a typo or small edit away).
+ *
+ * Both strings are normalized with the title's `normalize` option, matching
+ * `getSectionTitle`.
+ */
+function isSimilarText(text: string, title: Title): boolean {
+  const { name, aliases = [], normalize } = title;
+  const a = normalizeTitleText(text, normalize);
+  return (name ? [name, ...aliases] : aliases).some((candidate) => {
+    const b = normalizeTitleText(candidate, normalize);
+    const tolerance = Math.max(2, Math.floor(Math.max(a.length, b.length) / 4));
+    return getEditDistance(a, b) <= tolerance;
+  });
+}
+
+/**
+ * Finds paragraphs that almost match a section title.
+ *
+ * @param elementList - The document body's structural elements.
+ * @param section - The section that was not found.
+ * @returns A `near-match` diagnostic for each candidate paragraph.
+ */
+function findNearMatches(
+  elementList: docs_v1.Schema$StructuralElement[],
+  section: Section
+): ParseDiagnostic[] {
+  const { name = "", namedStyleType } = section.title;
+  const diagnostics: ParseDiagnostic[] = [];
+
+  elementList.forEach((element, index) => {
+    const info = element.paragraph ? getParagraph(element.paragraph) : null;
+    if (!info) return;
+
+    const styleMatches = hasNamedStyle(info.paragraph, namedStyleType);
+    const textMatches = matchesTitleText(info.text, section.title);
+
+    const isNearText =
+      !textMatches && isSimilarText(info.text, section.title);
+
+    if (styleMatches && isNearText) {
+      diagnostics.push({
+        code: "near-match",
+        message: `"${info.text}" has the style ${namedStyleType} but its text does not match "${name}".`,
+        index,
+        text: info.text,
+        section: name,
+      });
+    } else if (textMatches && !styleMatches) {
+      diagnostics.push({
+        code: "near-match",
+        message: `"${info.text}" matches "${name}" but has the style ${
+          info.style ?? "none"
+        } instead of ${namedStyleType}.`,
+        index,
+        text: info.text,
+        section: name,
+      });
+    }
+  });
+  return diagnostics;
+}
+
+/**
+ * Reports the schema sections missing from a parse result, with near matches for each.
+ *
+ * @param elementList - The document body's structural elements.
+ * @param parseSchema - The schema used for parsing.
+ * @param foundNameList - The names of the sections that were found.
+ * @returns `missing-section` and `near-match` diagnostics.
+ */
+export function collectMissingSections(
+  elementList: docs_v1.Schema$StructuralElement[],
+  parseSchema: ParseSchema,
+  foundNameList: string[]
+): ParseDiagnostic[] {
+  const found = new Set(foundNameList);
+
+  return parseSchema.sections
+    .filter((section) => section.title.name && !found.has(section.title.name))
+    .flatMap((section) => [
+      {
+        code: "missing-section" as const,
+        message: `${section.required ? "Required section" : "Section"} "${section.title.name}" (${section.title.namedStyleType}) was not found.`,
+        section: section.title.name as string,
+      },
+      ...findNearMatches(elementList, section),
+    ]);
+}
@@ -0,0 +1,150 @@
+import type { docs_v1 } from "googleapis";
+import type { DocsDocument } from "./edge/types";
+import { ParsedDocument, ParseSchema, GetParsedType } from "./types";
+import { ParagraphCursor } from "./cursor";
+import { parseSectionContent } from "./section";
+import { assertValidSchema } from "./validate";
+import { MissingSectionError } from "./errors";
+import {
+  ParseDiagnostic,
+  ParseReport,
+  collectMissingSections,
+} from "./diagnostics";
+
+/**
+ * A Google Docs document in either of the supported shapes:
+ * the googleapis `docs_v1.Schema$Document` or the dependency-free `DocsDocument`.
+ */
+export type DocumentInput = docs_v1.Schema$Document | DocsDocument;
+
+/**
+ * Options for `parseDocument`.
+ */
+export interface ParseDocumentOptions {
+  /**
+   * If true, the schema is checked with `validateSchema` first and a
+   * `SchemaValidationError` is thrown if it has errors.
+   */
+  validateSchema?: boolean;
+
+  /**
+   * If true, returns `{ result, diagnostics }` instead of the result alone,
+   * listing missing sections, near-miss headings, and skipped content.
+   */
+  diagnostics?: boolean;
+}
+
+/**
+ * Applies `required` and `default` to the sections missing from a parse result.
+ *
+ * @param result - The parsed sections (mutated).
+ * @param parseSchema - The schema used for parsing.
+ * @param isReport - If true, missing `required` sections are left to the
+ * `missing-section` diagnostics instead of throwing.
+ * @throws {MissingSectionError} If a section marked `required` is missing and
+ * `isReport` is false.
+ */
+function applySectionDefaults(
+  result: ParsedDocument,
+  parseSchema: ParseSchema,
+  isReport: boolean
+): void {
+  for (const section of parseSchema.sections) {
+    const name = section.title.name;
+    if (!name || Object.hasOwn(result, name)) continue;
+    if (section.required) {
+      if (isReport) continue;
+      throw new MissingSectionError(name);
+    }
+    if ("default" in section) result[name] = section.default;
+  }
+}
+
+/**
+ * Parses an already-fetched Google Docs document according to the provided schema.
+ *
+ * This function performs no I/O, so it can be used with documents obtained from
+ * webhooks, exports, or a cache. It walks the document's structural elements
+ * with a cursor to navigate and parse sections based on the schema definition.
+ *
+ * With `diagnostics: true`, it returns a `ParseReport` whose `diagnostics` list:
+ * - Schema sections not found in the document, with near-miss headings for each.
+ *   Missing `required` sections are reported here instead of thrown, and are
+ *   absent from the result.
+ * - Paragraphs dropped inside sections (e.g., text before the first tree node).
+ * - Non-paragraph elements skipped inside sections (e.g., a table in a list section).
+ *
+ * @template T - The type of the ParseSchema, allowing for type inference of the result.
+ * @param doc - The raw Google Docs document object.
+ * @param parseSchema - The schema defining the structure of sections to parse.
+ * @param options - Optional parsing options (schema validation, diagnostics).
+ * @returns An object representing the parsed document content, or a `ParseReport` with diagnostics.
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors.
+ * @throws {MissingSectionError} If a section marked `required` is not found
+ * (unless `diagnostics` is set).
+ * @throws {MissingNodeError} If a tree node marked `required` is not found at its level.
+ */
+export function parseDocument<T extends ParseSchema>(
+  doc: DocumentInput,
+  parseSchema: T,
+  options: ParseDocumentOptions & { diagnostics: true }
+): ParseReport<GetParsedType<T>>;
+export function parseDocument<T extends ParseSchema>(
+  doc: DocumentInput,
+  parseSchema: T,
+  options?: ParseDocumentOptions
+): GetParsedType<T>;
+export function parseDocument<T extends ParseSchema>(
+  doc: DocumentInput,
+  parseSchema: T,
+  options: ParseDocumentOptions = {}
+): GetParsedType<T> | ParseReport<GetParsedType<T>> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  // DocsDocument mirrors the googleapis shape, so both inputs share one traversal.
+  const content = (doc.body?.content ||
+    []) as docs_v1.Schema$StructuralElement[];
+  const lists = (doc.lists ?? {}) as Record<string, docs_v1.Schema$List>;
+  const diagnostics: ParseDiagnostic[] | null = options.diagnostics
+    ? []
+    : null;
+  const result: ParsedDocument = {};
+
+  const cursor = ParagraphCursor.fromStructuralElements(
+    content,
+    parseSchema,
+    lists,
+    diagnostics
+  );
+
+  while (!cursor.isEndOfDocument()) {
+    const currentSectionTitle = cursor.getCurrentSectionTitle();
+    if (currentSectionTitle) {
+      const section = parseSchema.sections.find(
+        (s) => s.title.name === currentSectionTitle
+      );
+      if (section) {
+        const diagnosticCount = diagnostics?.length ?? 0;
+        cursor.getNextParagraph();
+        const parsedData = parseSectionContent(cursor, section);
+        result[currentSectionTitle] = parsedData;
+        for (const diagnostic of diagnostics?.slice(diagnosticCount) ?? []) {
+          diagnostic.section = currentSectionTitle;
+        }
+        continue;
+      }
+    }
+    cursor.getNextParagraph();
+  }
+
+  const foundNameList = Object.keys(result);
+  applySectionDefaults(result, parseSchema, diagnostics !== null);
+
+  if (!diagnostics) {
+    return result as GetParsedType<T>;
+  }
+  diagnostics.push(
+    ...collectMissingSections(content, parseSchema, foundNameList)
+  );
+  return { result: result as GetParsedType<T>, diagnostics };
+}
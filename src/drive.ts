@@ -0,0 +1,142 @@
+import type { drive_v3 } from "googleapis";
+import { ParseSchema, GetParsedType } from "./types";
+import { createDriveAuthClient, createDriveClient } from "./auth";
+import { assertValidSchema } from "./validate";
+import type { ParseReport } from "./diagnostics";
+import { toDocsApiError } from "./errors";
+import { withRetry } from "./retry";
+import { runWithSignal } from "./signal";
+import {
+  getParsedDocuments,
+  withCredentialNamespace,
+  GetParsedDocumentsOptions,
+} from "./parser";
+import {
+  buildFolderQuery,
+  filterFolderFiles,
+  toCollectionEntries,
+  CollectionEntry,
+  DriveFile,
+  DRIVE_ERROR_CONTEXT,
+  DRIVE_LIST_FIELDS,
+  FolderListOptions,
+} from "./collection";
+
+/**
+ * Options for `getParsedCollection`: the `getParsedDocuments` options plus the
+ * folder filters.
+ *
+ * @template R - The result type of each document.
+ */
+export interface GetParsedCollectionOptions<R = unknown>
+  extends GetParsedDocumentsOptions<R>,
+    FolderListOptions {}
+
+/**
+ * Lists the Google Docs in a Drive folder, following all result pages.
+ *
+ * @param drive - The Drive client.
+ * @param folderId - The ID of the Drive folder.
+ * @param options - The folder filters, retry, signal, and timeout options (for the whole listing).
+ * @returns The listed documents.
+ * @throws {DocsApiError} If the Drive API call fails.
+ */
+async function listFolderFiles(
+  drive: drive_v3.Drive,
+  folderId: string,
+  options: GetParsedCollectionOptions
+): Promise<DriveFile[]> {
+  try {
+    return await runWithSignal(async (signal) => {
+      const fileList: DriveFile[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await withRetry(
+          () =>
+            drive.files.list(
+              {
+                q: buildFolderQuery(folderId, options),
+                fields: DRIVE_LIST_FIELDS,
+                orderBy: options.orderBy ?? "modifiedTime desc",
+                pageSize: 1000,
+                supportsAllDrives: true,
+                includeItemsFromAllDrives: true,
+                ...(pageToken && { pageToken }),
+              },
+              // googleapis retries on its own by default; `withRetry` handles retries.
+              { retry: false, ...(signal && { signal }) }
+            ),
+          options.retry,
+          signal
+        );
+        for (const file of response.data.files ?? []) {
+          if (file.id) {
+            fileList.push({
+              id: file.id,
+              name: file.name ?? "",
+              modifiedTime: file.modifiedTime ?? "",
+            });
+          }
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+      return fileList;
+    }, options);
+  } catch (e) {
+    // A caller abort rejects with the caller's own reason, like `fetch`.
+    throw options.signal?.aborted
+      ? options.signal.reason
+      : toDocsApiError(e, null, DRIVE_ERROR_CONTEXT);
+  }
+}
+
+/**
+ * Public API: Fetches and parses every Google Doc in a Drive folder.
+ *
+ * The folder is listed with the Drive API (read-only scope), then its documents are
+ * parsed with `getParsedDocuments`, sharing one auth client for both APIs.
+ *
+ * @template T - The type of the ParseSchema, allowing for type inference of the results.
+ * @param folderId - The ID of the Drive folder (shared with the service account).
+ * @param parseSchema - The schema definition used for every document.
+ * @param options - `getParsedDocuments` options plus `namePattern`, `modifiedAfter`,
+ * `modifiedBefore`, `orderBy`, and `onError`.
+ * @returns One entry per parsed document, in Drive order.
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors.
+ * @throws {DocsApiError} If listing the folder fails, or a document fails with `onError: "throw"`.
+ * @throws {ParseError} If a document fails to parse with `onError: "throw"`.
+ */
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options: GetParsedCollectionOptions<ParseReport<GetParsedType<T>>> & {
+    diagnostics: true;
+  }
+): Promise<CollectionEntry<ParseReport<GetParsedType<T>>>[]>;
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options?: GetParsedCollectionOptions<GetParsedType<T>>
+): Promise<CollectionEntry<GetParsedType<T>>[]>;
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options: GetParsedCollectionOptions = {}
+): Promise<CollectionEntry<unknown>[]> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  const sharedOptions = {
+    ...withCredentialNamespace(options),
+    authClient: createDriveAuthClient(options),
+  };
+  const fileList = filterFolderFiles(
+    await listFolderFiles(createDriveClient(sharedOptions), folderId, options),
+    options
+  );
+  const resultList = await getParsedDocuments(
+    fileList.map((file) => file.id),
+    parseSchema,
+    { ...sharedOptions, validateSchema: false }
+  );
+  return toCollectionEntries(fileList, resultList, options.onError);
+}
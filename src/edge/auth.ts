@@ -1,4 +1,21 @@
-import type { ServiceAccountCredentials, TokenResponse } from "./types";
+import type {
+  EdgeClientOptions,
+  ServiceAccountCredentials,
+  TokenResponse,
+} from "./types";
+import { getCachedAccessToken, getTokenCacheKey } from "./tokenCache";
+import { DocsAuthError } from "../errors";
+
+/**
+ * The OAuth2 scope requested for Google Docs read access.
+ */
+const DOCS_READONLY_SCOPE = "https://www.googleapis.com/auth/documents.readonly";
+
+/**
+ * The OAuth2 scope requested for listing Google Drive folders.
+ */
+export const DRIVE_READONLY_SCOPE =
+  "https://www.googleapis.com/auth/drive.readonly";
 
 /**
  * Encodes data in Base64 URL format (JWT standard).
@@ -89,15 +106,17 @@ async function createSignedJWT(
 }
 
 /**
- * Obtains a Google OAuth2 access token.
+ * Exchanges a signed JWT for a Google OAuth2 access token.
  */
-async function getAccessToken(
-  credentials: ServiceAccountCredentials
-): Promise<string> {
-  const scope = "https://www.googleapis.com/auth/documents.readonly";
+async function requestAccessToken(
+  credentials: ServiceAccountCredentials,
+  scope: string,
+  fetchImpl: typeof fetch = fetch,
+  signal?: AbortSignal
+): Promise<TokenResponse> {
   const jwt = await createSignedJWT(credentials, scope);
 
-  const response = await fetch(credentials.token_uri, {
+  const response = await fetchImpl(credentials.token_uri, {
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
@@ -106,27 +125,66 @@ async function getAccessToken(
       grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
       assertion: jwt,
     }),
+    ...(signal && { signal }),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(
-      `Failed to get access token: ${response.status} ${errorText}`
+    throw new DocsAuthError(
+      `Failed to get access token: ${response.status} ${errorText}`,
+      { status: response.status }
+    );
+  }
+
+  return (await response.json()) as TokenResponse;
+}
+
+/**
+ * Obtains a Google OAuth2 access token, reusing a cached one when possible.
+ */
+async function getAccessToken(
+  credentials: ServiceAccountCredentials,
+  options: EdgeClientOptions = {},
+  scope = DOCS_READONLY_SCOPE
+): Promise<string> {
+  if (options.tokenStore === false) {
+    const data = await requestAccessToken(
+      credentials,
+      scope,
+      options.fetch,
+      options.signal
     );
+    return data.access_token;
   }
 
-  const data = (await response.json()) as TokenResponse;
-  return data.access_token;
+  return getCachedAccessToken(
+    getTokenCacheKey(credentials.client_email, scope),
+    // The exchange may be shared by concurrent calls, so it does not use this
+    // call's signal; `getCachedAccessToken` stops waiting when the signal aborts.
+    async () => {
+      const data = await requestAccessToken(credentials, scope, options.fetch);
+      return { accessToken: data.access_token, expiresIn: data.expires_in };
+    },
+    options.tokenStore,
+    options.signal
+  );
 }
 
 /**
- * Loads Service Account credentials from environment variables.
+ * Loads Service Account credentials from an explicit value or environment variables.
  */
-export function loadCredentials(): ServiceAccountCredentials {
-  const credentialsEnv = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+export function loadCredentials(
+  credentials?: ServiceAccountCredentials | string
+): ServiceAccountCredentials {
+  if (credentials && typeof credentials === "object") {
+    return credentials;
+  }
+
+  const credentialsEnv =
+    credentials ?? process.env.GOOGLE_APPLICATION_CREDENTIALS;
 
   if (!credentialsEnv) {
-    throw new Error(
+    throw new DocsAuthError(
       "GOOGLE_APPLICATION_CREDENTIALS environment variable is not set"
     );
   }
@@ -142,16 +200,50 @@ export function loadCredentials(): ServiceAccountCredentials {
       "File path credentials are not supported in Edge Runtime. Use JSON string instead."
     );
   } catch (error) {
-    throw new Error(
-      `Failed to parse credentials: ${error instanceof Error ? error.message : String(error)}`
+    throw new DocsAuthError(
+      `Failed to parse credentials: ${error instanceof Error ? error.message : String(error)}`,
+      {},
+      { cause: error }
     );
   }
 }
 
+/**
+ * Identifies the principal that API calls are made as, so cache entries are never
+ * shared between callers with different credentials.
+ *
+ * - `accessToken`: The token itself (a new token starts new entries).
+ * - Service Account credentials: The `client_email`.
+ *
+ * @param options - The client options.
+ * @returns The identity string (hashed before it is used in a cache key).
+ */
+export function getCredentialIdentity(options: EdgeClientOptions = {}): string {
+  if (options.accessToken) return `accessToken:${options.accessToken}`;
+  try {
+    return `serviceAccount:${loadCredentials(options.credentials).client_email}`;
+  } catch {
+    // Missing or invalid credentials fail when the token is requested.
+    return "";
+  }
+}
+
 /**
  * Creates an authenticated Google Docs API client.
+ *
+ * Returns `options.accessToken` as-is when provided; otherwise exchanges
+ * the resolved credentials for an access token, cached in `options.tokenStore`.
+ *
+ * @param options - The client options.
+ * @param scope - The space-separated OAuth2 scopes (Docs read-only by default).
  */
-export async function createAuthenticatedClient(): Promise<string> {
-  const credentials = loadCredentials();
-  return getAccessToken(credentials);
+export async function createAuthenticatedClient(
+  options: EdgeClientOptions = {},
+  scope = DOCS_READONLY_SCOPE
+): Promise<string> {
+  if (options.accessToken) {
+    return options.accessToken;
+  }
+  const credentials = loadCredentials(options.credentials);
+  return getAccessToken(credentials, options, scope);
 }
@@ -1,27 +1,40 @@
-import type { DocsDocument } from "./types";
+import type { DocsDocument, EdgeClientOptions } from "./types";
 import { createAuthenticatedClient } from "./auth";
+import { DocsApiError, parseRetryAfter } from "../errors";
+import { withRetry } from "../retry";
+import { runWithSignal } from "../signal";
 
 /**
  * Fetches a document from the Google Docs API.
+ *
+ * @throws {DocsApiError} If the API responds with an error status (carried in `status`).
  */
 export async function fetchDocument(
   documentId: string,
-  accessToken: string
+  accessToken: string,
+  fetchImpl: typeof fetch = fetch,
+  signal?: AbortSignal
 ): Promise<DocsDocument> {
   const url = `https://docs.googleapis.com/v1/documents/${documentId}`;
 
-  const response = await fetch(url, {
+  const response = await fetchImpl(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
     },
+    ...(signal && { signal }),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(
-      `Google Docs API request failed: ${response.status} ${errorText}`
+    throw new DocsApiError(
+      `Google Docs API request failed: ${response.status} ${errorText}`,
+      {
+        status: response.status,
+        documentId,
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+      }
     );
   }
 
@@ -36,8 +49,28 @@ export async function fetchDocument(
 
 /**
  * Fetches a document with authentication (combined function).
+ *
+ * With `options.retry`, transient failures of the token exchange or the document
+ * request are retried (a cached token is reused across attempts). `options.signal`
+ * and `options.timeout` cancel the whole call, including retries.
  */
-export async function getDocument(documentId: string): Promise<DocsDocument> {
-  const accessToken = await createAuthenticatedClient();
-  return fetchDocument(documentId, accessToken);
+export async function getDocument(
+  documentId: string,
+  options: EdgeClientOptions = {}
+): Promise<DocsDocument> {
+  return runWithSignal(
+    (signal) =>
+      withRetry(
+        async () => {
+          const accessToken = await createAuthenticatedClient({
+            ...options,
+            ...(signal && { signal }),
+          });
+          return fetchDocument(documentId, accessToken, options.fetch, signal);
+        },
+        options.retry,
+        signal
+      ),
+    options
+  );
 }
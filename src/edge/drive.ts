@@ -0,0 +1,115 @@
+import type { EdgeClientOptions } from "./types";
+import { createAuthenticatedClient, DRIVE_READONLY_SCOPE } from "./auth";
+import { DocsApiError, parseRetryAfter } from "../errors";
+import { withRetry } from "../retry";
+import { runWithSignal } from "../signal";
+import {
+  buildFolderQuery,
+  DriveFile,
+  DRIVE_LIST_FIELDS,
+  FolderListOptions,
+} from "../collection";
+
+/**
+ * A page of the Drive `files.list` response.
+ */
+interface DriveFileListPage {
+  nextPageToken?: string;
+  files?: Array<{ id?: string; name?: string; modifiedTime?: string }>;
+}
+
+/**
+ * Fetches one page of a folder listing from the Google Drive API.
+ *
+ * @throws {DocsApiError} If the API responds with an error status (carried in `status`).
+ */
+export async function fetchFolderPage(
+  folderId: string,
+  accessToken: string,
+  options: FolderListOptions & { pageToken?: string },
+  fetchImpl: typeof fetch = fetch,
+  signal?: AbortSignal
+): Promise<DriveFileListPage> {
+  const params = new URLSearchParams({
+    q: buildFolderQuery(folderId, options),
+    fields: DRIVE_LIST_FIELDS,
+    orderBy: options.orderBy ?? "modifiedTime desc",
+    pageSize: "1000",
+    supportsAllDrives: "true",
+    includeItemsFromAllDrives: "true",
+  });
+  if (options.pageToken) params.set("pageToken", options.pageToken);
+
+  const response = await fetchImpl(
+    `https://www.googleapis.com/drive/v3/files?${params}`,
+    {
+      method: "GET",
+      headers: { Authorization: `Bearer ${accessToken}` },
+      ...(signal && { signal }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new DocsApiError(
+      `Google Drive API request failed: ${response.status} ${errorText}`,
+      {
+        status: response.status,
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+      }
+    );
+  }
+
+  return (await response.json()) as DriveFileListPage;
+}
+
+/**
+ * Lists the Google Docs in a Drive folder, following all result pages.
+ *
+ * Each page is requested with an access token for the Drive read-only scope (from
+ * the token cache, or `options.accessToken`). Retries, `signal`, and `timeout`
+ * apply to the whole listing, including the token exchange.
+ *
+ * @param folderId - The ID of the Drive folder.
+ * @param options - The folder filters and client options.
+ * @returns The listed documents.
+ */
+export async function listFolderFiles(
+  folderId: string,
+  options: EdgeClientOptions & FolderListOptions = {}
+): Promise<DriveFile[]> {
+  return runWithSignal(async (signal) => {
+    const fileList: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await withRetry(
+        async () => {
+          const accessToken = await createAuthenticatedClient(
+            { ...options, ...(signal && { signal }) },
+            DRIVE_READONLY_SCOPE
+          );
+          return fetchFolderPage(
+            folderId,
+            accessToken,
+            { ...options, ...(pageToken && { pageToken }) },
+            options.fetch,
+            signal
+          );
+        },
+        options.retry,
+        signal
+      );
+      for (const file of page.files ?? []) {
+        if (file.id) {
+          fileList.push({
+            id: file.id,
+            name: file.name ?? "",
+            modifiedTime: file.modifiedTime ?? "",
+          });
+        }
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return fileList;
+  }, options);
+}
@@ -1,51 +1,122 @@
-import type { ParseSchema, GetParsedType, ParsedDocument } from "../types";
-import type { DocsDocument } from "./types";
+import type { ParseSchema, GetParsedType } from "../types";
+import type {
+  DocsDocument,
+  DocsStructuralElement,
+  EdgeClientOptions,
+} from "./types";
 import { getDocument } from "./client";
-import { ParagraphCursor } from "../cursor";
-import { parseSectionContent } from "../section";
+import { getCredentialIdentity } from "./auth";
+import { listFolderFiles } from "./drive";
+import {
+  parseDocument as parseSharedDocument,
+  type ParseDocumentOptions,
+} from "../document";
+import { assertValidSchema } from "../validate";
+import type { ParseReport } from "../diagnostics";
+import { toDocsApiError, toParseError } from "../errors";
+import {
+  filterFolderFiles,
+  toCollectionEntries,
+  DRIVE_ERROR_CONTEXT,
+  type CollectionEntry,
+  type DriveFile,
+  type FolderListOptions,
+} from "../collection";
+import {
+  getCacheKey,
+  getCachedResult,
+  type CacheControlOptions,
+} from "../cache";
+import {
+  mapSettled,
+  type BatchOptions,
+  type ParsedDocumentResult,
+} from "../batch";
+import { inferSchema as inferSharedSchema } from "../infer";
+import { toMarkdown as toSharedMarkdown } from "../markdown";
+import { toHtml as toSharedHtml, type HtmlOptions } from "../html";
 
 /**
- * Parses a DocsDocument (same logic as the original parseDocument).
+ * Parses an already-fetched DocsDocument without any network access.
  *
- * Uses DocsDocument type instead of googleapis' docs_v1.Schema$Document.
+ * Same implementation as the Node.js entry point, typed against `DocsDocument`
+ * so the Edge build does not depend on googleapis types.
  */
-function parseDocument(
-  doc: DocsDocument,
-  parseSchema: ParseSchema
-): ParsedDocument {
-  const content = doc.body?.content || [];
-  const result: ParsedDocument = {};
-
-  // Convert DocsDocument type to googleapis-compatible type
-  const validParagraphList = content
-    .map((element) => element.paragraph)
-    .filter((paragraph): paragraph is NonNullable<typeof paragraph> => !!paragraph);
-
-  const cursor = new ParagraphCursor(validParagraphList as any, parseSchema);
-
-  while (!cursor.isEndOfDocument()) {
-    const currentSectionTitle = cursor.getCurrentSectionTitle();
-    if (currentSectionTitle) {
-      const section = parseSchema.sections.find(
-        (s) => s.title.name === currentSectionTitle
-      );
-      if (section) {
-        cursor.getNextParagraph();
-        const parsedData = parseSectionContent(cursor, section);
-        result[currentSectionTitle] = parsedData;
-        continue;
-      }
-    }
-    cursor.getNextParagraph();
-  }
+export const parseDocument: {
+  <T extends ParseSchema>(
+    doc: DocsDocument,
+    parseSchema: T,
+    options: ParseDocumentOptions & { diagnostics: true }
+  ): ParseReport<GetParsedType<T>>;
+  <T extends ParseSchema>(
+    doc: DocsDocument,
+    parseSchema: T,
+    options?: ParseDocumentOptions
+  ): GetParsedType<T>;
+} = parseSharedDocument;
+
+/**
+ * Generates a starter `ParseSchema` from an existing DocsDocument.
+ *
+ * Same implementation as the Node.js entry point, typed against `DocsDocument`.
+ */
+export const inferSchema: (doc: DocsDocument) => ParseSchema =
+  inferSharedSchema;
 
-  return result;
+/**
+ * Converts a DocsDocument (or a slice of its structural elements) to Markdown.
+ *
+ * Same implementation as the Node.js entry point, typed against `DocsDocument`.
+ */
+export const toMarkdown: (
+  input: DocsDocument | DocsStructuralElement[]
+) => string = toSharedMarkdown;
+
+/**
+ * Converts a DocsDocument (or a slice of its structural elements) to escaped HTML.
+ *
+ * Same implementation as the Node.js entry point, typed against `DocsDocument`.
+ */
+export const toHtml: (
+  input: DocsDocument | DocsStructuralElement[],
+  options?: HtmlOptions
+) => string = toSharedHtml;
+
+/**
+ * Options for `getParsedDocument` (Edge).
+ */
+export interface GetParsedDocumentOptions
+  extends EdgeClientOptions,
+    ParseDocumentOptions,
+    CacheControlOptions {}
+
+/**
+ * Fetches a document, wrapping failures in typed errors.
+ *
+ * @param documentId - The ID of the Google Doc.
+ * @param options - The client, retry, signal, and timeout options.
+ * @returns The document.
+ * @throws {DocsApiError} If the API call fails.
+ */
+async function loadDocument(
+  documentId: string,
+  options: EdgeClientOptions
+): Promise<DocsDocument> {
+  try {
+    return await getDocument(documentId, options);
+  } catch (e) {
+    // A caller abort rejects with the caller's own reason, like `fetch`.
+    throw options.signal?.aborted
+      ? options.signal.reason
+      : toDocsApiError(e, documentId);
+  }
 }
 
 /**
  * getParsedDocument for Edge Runtime.
  *
  * Compatible with Cloudflare Workers, Vercel Edge Functions, etc.
+ * Throws the same error classes as the Node.js entry point (`DocsNotFoundError`, `ParseError`, ...).
  *
  * @example
  * ```typescript
@@ -54,8 +125,9 @@ function parseDocument(
  *
  * export default {
  *   async fetch(request, env) {
- *     process.env.GOOGLE_APPLICATION_CREDENTIALS = env.GOOGLE_CREDENTIALS
- *     const data = await getParsedDocument('doc-id', schema)
+ *     const data = await getParsedDocument('doc-id', schema, {
+ *       credentials: env.GOOGLE_CREDENTIALS,
+ *     })
  *     return Response.json(data)
  *   }
  * }
@@ -63,20 +135,233 @@ function parseDocument(
  */
 export async function getParsedDocument<T extends ParseSchema>(
   documentId: string,
-  parseSchema: T
-): Promise<GetParsedType<T>> {
+  parseSchema: T,
+  options: GetParsedDocumentOptions & { diagnostics: true }
+): Promise<ParseReport<GetParsedType<T>>>;
+export async function getParsedDocument<T extends ParseSchema>(
+  documentId: string,
+  parseSchema: T,
+  options?: GetParsedDocumentOptions
+): Promise<GetParsedType<T>>;
+export async function getParsedDocument<T extends ParseSchema>(
+  documentId: string,
+  parseSchema: T,
+  options: GetParsedDocumentOptions = {}
+): Promise<GetParsedType<T> | ParseReport<GetParsedType<T>>> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  const diagnostics = !!options.diagnostics;
+  const parse = (doc: DocsDocument) => {
+    try {
+      return parseDocument(doc, parseSchema, { diagnostics });
+    } catch (e) {
+      throw toParseError(e, documentId);
+    }
+  };
+
+  if (!options.cache) return parse(await loadDocument(documentId, options));
+
+  const cacheOptions = options.cache === true ? {} : options.cache;
+  // The fetch may be shared by concurrent calls, so it does not use this call's
+  // signal or timeout; `getCachedResult` applies them to this call's wait.
+  const { signal, timeout, ...sharedOptions } = options;
+  return getCachedResult(
+    getCacheKey(
+      documentId,
+      parseSchema,
+      cacheOptions.mode ?? "result",
+      { diagnostics },
+      cacheOptions.namespace ?? getCredentialIdentity(options)
+    ),
+    () => loadDocument(documentId, sharedOptions),
+    parse,
+    cacheOptions,
+    options
+  );
+}
+
+/**
+ * Options for `getParsedDocuments` (Edge): the `getParsedDocument` options applied
+ * to each document, plus the batch options.
+ *
+ * @template R - The result type of each document.
+ */
+export interface GetParsedDocumentsOptions<R = unknown>
+  extends GetParsedDocumentOptions,
+    BatchOptions<R> {}
+
+/**
+ * getParsedDocuments for Edge Runtime.
+ *
+ * Each document request takes its access token from the token cache, so concurrent
+ * requests share one token exchange and a long batch renews the token when it
+ * expires (with `tokenStore: false`, every document exchanges its own token). The
+ * schema is validated once if `validateSchema` is set. Failures, including token
+ * errors, are collected per document instead of rejecting the whole batch.
+ *
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors.
+ */
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options: GetParsedDocumentsOptions<ParseReport<GetParsedType<T>>> & {
+    diagnostics: true;
+  }
+): Promise<ParsedDocumentResult<ParseReport<GetParsedType<T>>>[]>;
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options?: GetParsedDocumentsOptions<GetParsedType<T>>
+): Promise<ParsedDocumentResult<GetParsedType<T>>[]>;
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options: GetParsedDocumentsOptions = {}
+): Promise<ParsedDocumentResult<unknown>[]> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  const documentOptions: GetParsedDocumentOptions = {
+    ...options,
+    validateSchema: false,
+  };
+  return mapSettled(
+    documentIds,
+    (documentId) => getParsedDocument(documentId, parseSchema, documentOptions),
+    options
+  );
+}
+
+/**
+ * Options for `getParsedCollection` (Edge): the `getParsedDocuments` options plus
+ * the folder filters.
+ *
+ * @template R - The result type of each document.
+ */
+export interface GetParsedCollectionOptions<R = unknown>
+  extends GetParsedDocumentsOptions<R>,
+    FolderListOptions {}
+
+/**
+ * getParsedCollection for Edge Runtime.
+ *
+ * Lists the Google Docs in a Drive folder with the Drive API, then parses them
+ * with `getParsedDocuments`. Access tokens come from the token cache (one for the
+ * Drive read-only scope, one for the Docs read-only scope), so they are renewed
+ * when they expire during a large collection.
+ *
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors.
+ * @throws {DocsApiError} If listing the folder fails, or a document fails with `onError: "throw"`.
+ * @throws {ParseError} If a document fails to parse with `onError: "throw"`.
+ */
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options: GetParsedCollectionOptions<ParseReport<GetParsedType<T>>> & {
+    diagnostics: true;
+  }
+): Promise<CollectionEntry<ParseReport<GetParsedType<T>>>[]>;
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options?: GetParsedCollectionOptions<GetParsedType<T>>
+): Promise<CollectionEntry<GetParsedType<T>>[]>;
+export async function getParsedCollection<T extends ParseSchema>(
+  folderId: string,
+  parseSchema: T,
+  options: GetParsedCollectionOptions = {}
+): Promise<CollectionEntry<unknown>[]> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  let fileList: DriveFile[];
   try {
-    const doc = await getDocument(documentId);
-    const parsedDocument = parseDocument(doc, parseSchema);
-    return parsedDocument as GetParsedType<T>;
+    fileList = await listFolderFiles(folderId, options);
   } catch (e) {
-    throw new Error(
-      `Google Docs API call failed. Check Doc ID and Service Account permissions. Original error: ${
-        e instanceof Error ? e.message : String(e)
-      }`
-    );
+    // A caller abort rejects with the caller's own reason, like `fetch`.
+    throw options.signal?.aborted
+      ? options.signal.reason
+      : toDocsApiError(e, null, DRIVE_ERROR_CONTEXT);
   }
+  fileList = filterFolderFiles(fileList, options);
+
+  const resultList = await getParsedDocuments(
+    fileList.map((file) => file.id),
+    parseSchema,
+    { ...options, validateSchema: false }
+  );
+  return toCollectionEntries(fileList, resultList, options.onError);
 }
 
 // Export types for Edge
-export type { ServiceAccountCredentials, DocsDocument } from "./types";
+export type {
+  ServiceAccountCredentials,
+  DocsDocument,
+  DocsStructuralElement,
+  DocsParagraph,
+  DocsTable,
+  DocsTextStyle,
+  DocsList,
+  EdgeClientOptions,
+  TokenStore,
+} from "./types";
+export { createMemoryTokenStore } from "./tokenCache";
+export type {
+  ParseSchema,
+  TitleNormalizeOptions,
+  GetParsedType,
+  RichText,
+  TextSpan,
+  HtmlClassNames,
+  HtmlElementName,
+} from "../types";
+export type { HtmlOptions } from "../html";
+export {
+  DocsApiError,
+  DocsAuthError,
+  DocsPermissionError,
+  DocsNotFoundError,
+  DocsRateLimitError,
+  DocsTimeoutError,
+  SchemaError,
+  ParseError,
+  CoercionError,
+  SchemaValidationError,
+  MissingSectionError,
+  MissingNodeError,
+  OutputValidationError,
+} from "../errors";
+export { validateSchema } from "../validate";
+export { formatSchemaModule } from "../infer";
+export { toJsonSchema } from "../jsonSchema";
+export type { JsonSchema } from "../jsonSchema";
+export type {
+  SchemaIssue,
+  SchemaIssueCode,
+  SchemaValidationResult,
+} from "../validate";
+export type { DocsApiErrorDetails } from "../errors";
+export type { StandardSchemaV1, ResultPath } from "../standardSchema";
+export type { ParseDocumentOptions } from "../document";
+export type { RetryOptions, RetryInfo, RetryControlOptions } from "../retry";
+export type { RequestSignalOptions } from "../signal";
+export { createLruCacheStore } from "../cache";
+export type {
+  CollectionEntry,
+  DriveFile,
+  FolderListOptions,
+} from "../collection";
+export type {
+  BatchOptions,
+  BatchProgress,
+  ParsedDocumentResult,
+} from "../batch";
+export type {
+  CacheStore,
+  CacheOptions,
+  CacheControlOptions,
+  LruCacheStoreOptions,
+} from "../cache";
+export type {
+  ParseDiagnostic,
+  ParseDiagnosticCode,
+  ParseReport,
+} from "../diagnostics";
@@ -0,0 +1,149 @@
+import type { TokenStore } from "./types";
+import { runWithSignal } from "../signal";
+
+/**
+ * Tokens are treated as expired this many seconds before their actual expiry,
+ * so a request never starts with a token that is about to be rejected.
+ */
+const EXPIRY_MARGIN_SECONDS = 60;
+
+/**
+ * A cached access token together with its absolute expiry time.
+ */
+interface CachedToken {
+  accessToken: string;
+  /** Expiry as a Unix timestamp in milliseconds. */
+  expiresAt: number;
+}
+
+/**
+ * Creates a process-local `TokenStore` backed by a `Map`.
+ *
+ * Entries are dropped lazily once their TTL has elapsed.
+ */
+export function createMemoryTokenStore(): TokenStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+  };
+}
+
+/**
+ * The default store shared by all calls in this isolate.
+ */
+const defaultTokenStore = createMemoryTokenStore();
+
+/**
+ * Pending token requests, keyed by store and cache key, used to dedupe concurrent
+ * refreshes.
+ */
+const inflightTokenRequests = new Map<string, Promise<string>>();
+
+/**
+ * Identifies each store, so callers with different stores never share a request.
+ */
+const tokenStoreIds = new WeakMap<TokenStore, number>();
+let nextTokenStoreId = 1;
+
+/**
+ * Returns the identity of a store, assigning a new one on first use.
+ */
+function getTokenStoreId(store: TokenStore): number {
+  let id = tokenStoreIds.get(store);
+  if (id === undefined) {
+    id = nextTokenStoreId++;
+    tokenStoreIds.set(store, id);
+  }
+  return id;
+}
+
+/**
+ * Builds the cache key for a service account and scope pair.
+ */
+export function getTokenCacheKey(clientEmail: string, scope: string): string {
+  return `google-docs-parser:token:${clientEmail}:${scope}`;
+}
+
+/**
+ * Parses a stored token entry, returning `null` for malformed or expiring values.
+ */
+function readCachedToken(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  try {
+    const cached = JSON.parse(raw) as CachedToken;
+    const isFresh =
+      cached.expiresAt - EXPIRY_MARGIN_SECONDS * 1000 > Date.now();
+    return isFresh && cached.accessToken ? cached.accessToken : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a cached access token, or obtains and caches a new one.
+ *
+ * - Reuses tokens until `EXPIRY_MARGIN_SECONDS` before they expire.
+ * - Concurrent calls for the same key and store share a single token request.
+ *   The shared request is not tied to any caller's signal; each caller stops
+ *   waiting when its own `signal` aborts.
+ *
+ * @param key - The cache key (see `getTokenCacheKey`).
+ * @param requestToken - Obtains a fresh token and its lifetime in seconds.
+ * @param store - The store to read from and write to. Defaults to an in-memory store.
+ * @param signal - Aborts this caller's wait for the token.
+ * @returns The access token.
+ * @throws The abort reason if `signal` aborts first.
+ */
+export async function getCachedAccessToken(
+  key: string,
+  requestToken: () => Promise<{ accessToken: string; expiresIn: number }>,
+  store: TokenStore = defaultTokenStore,
+  signal?: AbortSignal
+): Promise<string> {
+  signal?.throwIfAborted();
+  const cached = readCachedToken(await store.get(key));
+  if (cached) return cached;
+
+  const inflightKey = `${getTokenStoreId(store)}:${key}`;
+  const inflight =
+    inflightTokenRequests.get(inflightKey) ??
+    shareTokenRequest(inflightKey, key, requestToken, store);
+  return runWithSignal(() => inflight, signal ? { signal } : {});
+}
+
+/**
+ * Starts a token request that concurrent callers can join, and caches its result.
+ */
+function shareTokenRequest(
+  inflightKey: string,
+  key: string,
+  requestToken: () => Promise<{ accessToken: string; expiresIn: number }>,
+  store: TokenStore
+): Promise<string> {
+  const request = (async () => {
+    const { accessToken, expiresIn } = await requestToken();
+    const entry: CachedToken = {
+      accessToken,
+      expiresAt: Date.now() + expiresIn * 1000,
+    };
+    await store.set(key, JSON.stringify(entry), expiresIn);
+    return accessToken;
+  })();
+
+  inflightTokenRequests.set(inflightKey, request);
+  const cleanUp = () => inflightTokenRequests.delete(inflightKey);
+  request.then(cleanUp, cleanUp);
+  return request;
+}
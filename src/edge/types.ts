@@ -3,6 +3,9 @@
  * Can be used without the googleapis package.
  */
 
+import type { RetryControlOptions } from "../retry";
+import type { RequestSignalOptions } from "../signal";
+
 /**
  * Service Account credentials.
  */
@@ -19,6 +22,45 @@ export interface ServiceAccountCredentials {
   client_x509_cert_url: string;
 }
 
+/**
+ * Options for authenticating and fetching documents in Edge Runtime
+ * without relying on `process.env`.
+ */
+export interface EdgeClientOptions
+  extends RetryControlOptions,
+    RequestSignalOptions {
+  /**
+   * Service Account credentials, either as a parsed object or a JSON string.
+   * Falls back to `GOOGLE_APPLICATION_CREDENTIALS` when omitted.
+   */
+  credentials?: ServiceAccountCredentials | string;
+
+  /**
+   * A pre-issued OAuth2 access token. When provided, no token exchange is performed.
+   */
+  accessToken?: string;
+
+  /**
+   * A custom `fetch` implementation used for all HTTP requests.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Where access tokens are cached between calls (e.g., a KV namespace adapter).
+   * Defaults to an in-memory store; pass `false` to request a new token on every call.
+   */
+  tokenStore?: TokenStore | false;
+}
+
+/**
+ * A key-value store for caching access tokens (e.g., Cloudflare KV, Redis).
+ * Values are opaque strings; `ttlSeconds` is the remaining token lifetime.
+ */
+export interface TokenStore {
+  get(key: string): Promise<string | null | undefined> | string | null | undefined;
+  set(key: string, value: string, ttlSeconds: number): Promise<void> | void;
+}
+
 /**
  * OAuth2 token response.
  */
@@ -28,6 +70,90 @@ export interface TokenResponse {
   token_type: string;
 }
 
+/**
+ * Inline text style of a text run.
+ * Compatible with googleapis' docs_v1.Schema$TextStyle.
+ */
+export interface DocsTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  link?: {
+    url?: string;
+    [key: string]: unknown;
+  };
+  weightedFontFamily?: {
+    fontFamily?: string;
+    weight?: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * A paragraph in a Google Docs document.
+ * Compatible with googleapis' docs_v1.Schema$Paragraph.
+ */
+export interface DocsParagraph {
+  elements?: Array<{
+    textRun?: {
+      content?: string;
+      textStyle?: DocsTextStyle;
+    };
+  }>;
+  paragraphStyle?: {
+    namedStyleType?: string;
+    [key: string]: unknown;
+  };
+  bullet?: {
+    listId?: string;
+    nestingLevel?: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * A table in a Google Docs document. Each cell holds its own structural elements.
+ * Compatible with googleapis' docs_v1.Schema$Table.
+ */
+export interface DocsTable {
+  rows?: number;
+  columns?: number;
+  tableRows?: Array<{
+    tableCells?: Array<{
+      content?: DocsStructuralElement[];
+      [key: string]: unknown;
+    }>;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+/**
+ * A top-level element of the document body (paragraph, table, section break, ...).
+ * Compatible with googleapis' docs_v1.Schema$StructuralElement.
+ */
+export interface DocsStructuralElement {
+  paragraph?: DocsParagraph;
+  table?: DocsTable;
+  [key: string]: unknown;
+}
+
+/**
+ * A list definition, keyed by `bullet.listId` in `DocsDocument.lists`.
+ * Compatible with googleapis' docs_v1.Schema$List.
+ */
+export interface DocsList {
+  listProperties?: {
+    nestingLevels?: Array<{
+      glyphType?: string;
+      glyphSymbol?: string;
+      [key: string]: unknown;
+    }>;
+  };
+  [key: string]: unknown;
+}
+
 /**
  * Google Docs API response type.
  * Compatible with googleapis' docs_v1.Schema$Document.
@@ -35,27 +161,11 @@ export interface TokenResponse {
 export interface DocsDocument {
   documentId?: string;
   title?: string;
+  /** Changes whenever the document is edited; used to detect stale cache entries. */
+  revisionId?: string;
   body?: {
-    content?: Array<{
-      paragraph?: {
-        elements?: Array<{
-          textRun?: {
-            content?: string;
-            textStyle?: unknown;
-          };
-        }>;
-        paragraphStyle?: {
-          namedStyleType?: string;
-          [key: string]: unknown;
-        };
-        bullet?: {
-          listId?: string;
-          nestingLevel?: number;
-        };
-        [key: string]: unknown;
-      };
-      [key: string]: unknown;
-    }>;
+    content?: DocsStructuralElement[];
   };
+  lists?: Record<string, DocsList>;
   [key: string]: unknown;
 }
@@ -0,0 +1,416 @@
+import type { SchemaIssue } from "./validate";
+import type { ResultPath, StandardSchemaV1 } from "./standardSchema";
+
+/**
+ * The request context carried by a `DocsApiError`.
+ */
+export interface DocsApiErrorDetails {
+  /** The HTTP status of the failed request. */
+  status?: number | null;
+  /** The ID of the requested document. */
+  documentId?: string | null;
+  /** The `Retry-After` delay in seconds sent with the response. */
+  retryAfter?: number | null;
+}
+
+/**
+ * Base class for failures while fetching a document from the Google Docs API.
+ *
+ * Thrown as-is for statuses without a dedicated subclass (e.g., `500`) and for
+ * network failures, where `status` is `null`.
+ */
+export class DocsApiError extends Error {
+  /** The HTTP status of the failed request, or `null` if there was no response. */
+  readonly status: number | null;
+  /** The ID of the requested document, or `null` if the request was not for a document. */
+  readonly documentId: string | null;
+  /** The `Retry-After` delay in seconds, or `null` if the response did not send one. */
+  readonly retryAfter: number | null;
+
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "DocsApiError";
+    this.status = details.status ?? null;
+    this.documentId = details.documentId ?? null;
+    this.retryAfter = details.retryAfter ?? null;
+  }
+}
+
+/**
+ * Thrown when credentials are missing or invalid, or the access token is rejected (`401`).
+ */
+export class DocsAuthError extends DocsApiError {
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, details, options);
+    this.name = "DocsAuthError";
+  }
+}
+
+/**
+ * Thrown when the service account cannot access the document (`403`).
+ * Usually the document has not been shared with the service account email.
+ */
+export class DocsPermissionError extends DocsApiError {
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, details, options);
+    this.name = "DocsPermissionError";
+  }
+}
+
+/**
+ * Thrown when the document does not exist (`404`).
+ */
+export class DocsNotFoundError extends DocsApiError {
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, details, options);
+    this.name = "DocsNotFoundError";
+  }
+}
+
+/**
+ * Thrown when the Google Docs API quota is exceeded (`429`).
+ */
+export class DocsRateLimitError extends DocsApiError {
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, details, options);
+    this.name = "DocsRateLimitError";
+  }
+}
+
+/**
+ * Thrown when a call exceeds its `timeout` option.
+ */
+export class DocsTimeoutError extends DocsApiError {
+  /** The time limit that was exceeded, in milliseconds. */
+  readonly timeout: number;
+
+  constructor(
+    message: string,
+    details: DocsApiErrorDetails & { timeout: number },
+    options?: { cause?: unknown }
+  ) {
+    super(message, details, options);
+    this.name = "DocsTimeoutError";
+    this.timeout = details.timeout;
+  }
+}
+
+/**
+ * Base class for problems in the parse schema itself.
+ */
+export class SchemaError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SchemaError";
+  }
+}
+
+/**
+ * Base class for failures while parsing a fetched document against a schema.
+ *
+ * Thrown as-is by `getParsedDocument` when parsing fails unexpectedly, with the
+ * original error as `cause`.
+ */
+export class ParseError extends Error {
+  /** The ID of the parsed document, or `null` when parsing an already-fetched document. */
+  readonly documentId: string | null;
+
+  constructor(
+    message: string,
+    options?: { cause?: unknown; documentId?: string | null }
+  ) {
+    super(message, options);
+    this.name = "ParseError";
+    this.documentId = options?.documentId ?? null;
+  }
+}
+
+/**
+ * Reads the HTTP status from an error thrown by an HTTP client.
+ *
+ * Supports `DocsApiError`, gaxios errors (`status`, `response.status`, or a numeric `code`),
+ * and anything else exposing a numeric `status`.
+ *
+ * @param error - The thrown value.
+ * @returns The HTTP status, or `null` if the error does not carry one.
+ */
+export function getErrorStatus(error: unknown): number | null {
+  if (typeof error !== "object" || error === null) return null;
+
+  const { status, code, response } = error as {
+    status?: unknown;
+    code?: unknown;
+    response?: { status?: unknown };
+  };
+  const candidate = [status, response?.status, code]
+    .map((value) => (typeof value === "string" ? Number(value) : value))
+    .find((value) => typeof value === "number" && Number.isInteger(value));
+  return typeof candidate === "number" ? candidate : null;
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ *
+ * @param value - The header value: delay seconds (e.g., `"120"`) or an HTTP date.
+ * @returns The delay in seconds (never negative), or `null` if absent or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Reads the `Retry-After` delay from an error thrown by an HTTP client.
+ *
+ * Supports `DocsApiError` (`retryAfter`) and gaxios errors (`response.headers`,
+ * either a `Headers` instance or a plain object).
+ *
+ * @param error - The thrown value.
+ * @returns The delay in seconds, or `null` if the error does not carry one.
+ */
+export function getRetryAfter(error: unknown): number | null {
+  if (error instanceof DocsApiError) return error.retryAfter;
+  if (typeof error !== "object" || error === null) return null;
+
+  const headers = (error as { response?: { headers?: unknown } }).response
+    ?.headers;
+  if (typeof headers !== "object" || headers === null) return null;
+  if (typeof (headers as Headers).get === "function") {
+    return parseRetryAfter((headers as Headers).get("retry-after"));
+  }
+  const value = (headers as Record<string, unknown>)["retry-after"];
+  return parseRetryAfter(typeof value === "string" ? value : null);
+}
+
+/**
+ * Wraps an error thrown while fetching a document in the `DocsApiError` subclass
+ * matching its HTTP status.
+ *
+ * A `DocsAuthError` (e.g., from the token exchange) stays a `DocsAuthError`
+ * regardless of its status, and a `DocsTimeoutError` stays a `DocsTimeoutError`.
+ *
+ * @param error - The thrown value.
+ * @param documentId - The ID of the requested document, or `null` for other requests.
+ * @param context - The start of the error message, describing the failed call.
+ * @returns The typed error, with `error` as its `cause`.
+ */
+export function toDocsApiError(
+  error: unknown,
+  documentId: string | null,
+  context = "Google Docs API call failed. Check Doc ID and Service Account permissions."
+): DocsApiError {
+  const message = `${context} Original error: ${
+    error instanceof Error ? error.message : String(error)
+  }`;
+  const status = getErrorStatus(error);
+  const details = { status, documentId, retryAfter: getRetryAfter(error) };
+  const options = { cause: error };
+
+  if (error instanceof DocsTimeoutError) {
+    return new DocsTimeoutError(
+      message,
+      { ...details, timeout: error.timeout },
+      options
+    );
+  }
+  if (error instanceof DocsAuthError || status === 401) {
+    return new DocsAuthError(message, details, options);
+  }
+  switch (status) {
+    case 403:
+      return new DocsPermissionError(message, details, options);
+    case 404:
+      return new DocsNotFoundError(message, details, options);
+    case 429:
+      return new DocsRateLimitError(message, details, options);
+    default:
+      return new DocsApiError(message, details, options);
+  }
+}
+
+/**
+ * Wraps an unexpected error thrown while parsing a fetched document in a `ParseError`.
+ *
+ * `ParseError` and `SchemaError` instances (e.g., `MissingSectionError`) are returned as-is.
+ *
+ * @param error - The thrown value.
+ * @param documentId - The ID of the parsed document.
+ * @returns The typed error.
+ */
+export function toParseError(
+  error: unknown,
+  documentId: string
+): ParseError | SchemaError {
+  if (error instanceof ParseError || error instanceof SchemaError) {
+    return error;
+  }
+  return new ParseError(
+    `Failed to parse document "${documentId}": ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    { cause: error, documentId }
+  );
+}
+
+/**
+ * Thrown when a parsed value cannot be converted by the `coerce` option of a schema.
+ *
+ * Carries the field being coerced and the full source paragraph text so the
+ * failing line can be located in the document.
+ */
+export class CoercionError extends ParseError {
+  /** The field name (`keys` field or keyed-list key), or the item position (e.g., `[2]`). */
+  readonly field: string;
+  /** The raw value that failed to coerce. */
+  readonly value: string;
+  /** The text of the paragraph the value was parsed from. */
+  readonly text: string;
+
+  constructor(
+    message: string,
+    details: { field: string; value: string; text: string },
+    options?: { cause?: unknown }
+  ) {
+    super(
+      `${message} (field "${details.field}" in paragraph "${details.text}")`,
+      options
+    );
+    this.name = "CoercionError";
+    this.field = details.field;
+    this.value = details.value;
+    this.text = details.text;
+  }
+}
+
+/**
+ * Thrown when a schema fails `validateSchema` and validation was requested
+ * (e.g., `validateSchema: true` in `getParsedDocument`).
+ */
+export class SchemaValidationError extends SchemaError {
+  /** The validation errors (warnings are not included). */
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(
+      `Invalid parse schema: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a section marked `required: true` is not found in the document.
+ */
+export class MissingSectionError extends ParseError {
+  /** The name of the missing section. */
+  readonly section: string;
+
+  constructor(section: string) {
+    super(`Required section "${section}" was not found in the document.`);
+    this.name = "MissingSectionError";
+    this.section = section;
+  }
+}
+
+/**
+ * Thrown when a tree node marked `required: true` is not found at its level
+ * (in the section for the root node, or under a parent node).
+ */
+export class MissingNodeError extends ParseError {
+  /** The title style of the missing node. */
+  readonly namedStyleType: string;
+  /** The parsed title of the parent node, or `null` for the root node. */
+  readonly parentTitle: unknown;
+
+  constructor(namedStyleType: string, parentTitle: unknown = null) {
+    super(
+      parentTitle === null
+        ? `Required node (${namedStyleType}) was not found in the section.`
+        : `Required node (${namedStyleType}) was not found under ${JSON.stringify(
+            parentTitle
+          )}.`
+    );
+    this.name = "MissingNodeError";
+    this.namedStyleType = namedStyleType;
+    this.parentTitle = parentTitle;
+  }
+}
+
+/**
+ * Formats a result path for messages (e.g., `Experience[0].title`).
+ */
+function formatResultPath(path: ResultPath): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join("");
+}
+
+/**
+ * Thrown when a parsed item is rejected by the `validate` option (a Standard Schema
+ * validator such as Zod, Valibot, or ArkType) of a title or list.
+ *
+ * Carries the position of the item in the result and the source paragraph text so
+ * the failing line can be located in the document.
+ */
+export class OutputValidationError extends ParseError {
+  /** The position of the item in the parse result (e.g., `["Experience", 0, "title"]`). */
+  readonly path: ResultPath;
+  /** The text of the paragraph the item was parsed from. */
+  readonly text: string;
+  /** The parsed item that failed validation. */
+  readonly value: unknown;
+  /** The issues reported by the validator. */
+  readonly issues: readonly StandardSchemaV1.Issue[];
+
+  constructor(details: {
+    path: ResultPath;
+    text: string;
+    value: unknown;
+    issues: readonly StandardSchemaV1.Issue[];
+  }) {
+    super(
+      `Validation failed at ${formatResultPath(details.path)}: ${details.issues
+        .map((issue) => issue.message)
+        .join("; ")} (paragraph "${details.text}")`
+    );
+    this.name = "OutputValidationError";
+    this.path = details.path;
+    this.text = details.text;
+    this.value = details.value;
+    this.issues = details.issues;
+  }
+}
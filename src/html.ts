@@ -0,0 +1,194 @@
+import type { docs_v1 } from "googleapis";
+import { HtmlClassNames, HtmlElementName, RichText, TextSpan } from "./types";
+import { ParagraphCursor } from "./cursor";
+import type { DocumentInput } from "./document";
+import type { DocsStructuralElement } from "./edge/types";
+import { Block, ListBlock, buildBlocks, collectBlockElements } from "./blocks";
+import { isSafeUrl } from "./utils";
+
+/**
+ * Options for rendering HTML.
+ */
+export interface HtmlOptions {
+  /** Class names to add to rendered elements, keyed by element name. */
+  classNames?: HtmlClassNames;
+}
+
+/**
+ * Escapes text for use in HTML content and double-quoted attribute values.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Wraps content in an element, adding its configured class name and extra attributes.
+ */
+function wrap(
+  name: HtmlElementName,
+  content: string,
+  classNames: HtmlClassNames,
+  attributes = ""
+): string {
+  const className = classNames[name];
+  const classAttribute = className ? ` class="${escapeHtml(className)}"` : "";
+  return `<${name}${attributes}${classAttribute}>${content}</${name}>`;
+}
+
+/**
+ * Renders a single span. Links with unsafe URL schemes are rendered as plain text.
+ */
+function renderSpan(span: TextSpan, classNames: HtmlClassNames): string {
+  let rendered = escapeHtml(span.text).replace(/\u000b/g, "<br>");
+  if (span.code) rendered = wrap("code", rendered, classNames);
+  if (span.strikethrough) rendered = wrap("s", rendered, classNames);
+  if (span.underline && !span.link) rendered = wrap("u", rendered, classNames);
+  if (span.italic) rendered = wrap("em", rendered, classNames);
+  if (span.bold) rendered = wrap("strong", rendered, classNames);
+  if (span.link && isSafeUrl(span.link)) {
+    rendered = wrap(
+      "a",
+      rendered,
+      classNames,
+      ` href="${escapeHtml(span.link)}"`
+    );
+  }
+  return rendered;
+}
+
+/**
+ * Renders rich text as escaped inline HTML.
+ *
+ * Underline is omitted on links, where Google Docs applies it by default.
+ *
+ * @param spans - The rich text to render.
+ * @param options - Rendering options (class names).
+ * @returns The HTML string.
+ */
+export function renderInlineHtml(
+  spans: RichText,
+  options: HtmlOptions = {}
+): string {
+  const classNames = options.classNames ?? {};
+  return spans.map((span) => renderSpan(span, classNames)).join("");
+}
+
+/**
+ * Renders a list, placing nested lists inside their parent `<li>`.
+ */
+function renderList(list: ListBlock, options: HtmlOptions): string {
+  const classNames = options.classNames ?? {};
+  const items = list.items
+    .map((item) => {
+      const content = renderInlineHtml(item.content, options);
+      const children = item.children ? renderList(item.children, options) : "";
+      return wrap("li", content + children, classNames);
+    })
+    .join("");
+  return wrap(list.ordered ? "ol" : "ul", items, classNames);
+}
+
+/**
+ * Renders a single block as HTML.
+ */
+function renderBlock(block: Block, options: HtmlOptions): string {
+  const classNames = options.classNames ?? {};
+  switch (block.type) {
+    case "heading": {
+      const name = `h${block.level}` as HtmlElementName;
+      return wrap(name, renderInlineHtml(block.content, options), classNames);
+    }
+    case "list":
+      return renderList(block, options);
+    case "table": {
+      const rows = block.rows
+        .map((row) =>
+          wrap(
+            "tr",
+            row
+              .map((cell) =>
+                wrap("td", renderInlineHtml(cell, options), classNames)
+              )
+              .join(""),
+            classNames
+          )
+        )
+        .join("");
+      return wrap("table", `<tbody>${rows}</tbody>`, classNames);
+    }
+    case "paragraph":
+      return wrap("p", renderInlineHtml(block.content, options), classNames);
+  }
+}
+
+/**
+ * Renders blocks as HTML, one top-level element per line.
+ *
+ * @param blocks - The blocks to render (see `buildBlocks`).
+ * @param options - Rendering options (class names).
+ * @returns The HTML string.
+ */
+export function renderHtml(blocks: Block[], options: HtmlOptions = {}): string {
+  return blocks.map((block) => renderBlock(block, options)).join("\n");
+}
+
+/**
+ * Parses a text block section as HTML.
+ *
+ * Collects paragraphs, lists, and tables until the next section or heading
+ * (see `collectBlockElements`) and renders them with `renderHtml`.
+ *
+ * @param cursor - The cursor traversing the document elements.
+ * @param options - Rendering options (class names).
+ * @returns The section content as HTML.
+ */
+export function parseHtmlSection(
+  cursor: ParagraphCursor,
+  options: HtmlOptions = {}
+): string {
+  return renderHtml(
+    buildBlocks(collectBlockElements(cursor), cursor.getLists()),
+    options
+  );
+}
+
+/**
+ * Converts a whole Google Docs document (or a slice of its structural elements) to HTML.
+ *
+ * Produces semantic, escaped HTML:
+ * - Heading styles become `<h1>`–`<h6>` (TITLE → `<h1>`, SUBTITLE → `<h2>`).
+ * - Bullets become nested `<ul>`, or `<ol>` when the list level is numbered.
+ * - Inline styles become `<strong>`, `<em>`, `<u>`, `<s>`, and `<code>`; links become `<a>`
+ *   (links with schemes other than http, https, mailto, and tel are dropped).
+ * - Tables become `<table>` elements.
+ *
+ * Numbered lists are only detected from a full document, since their glyph types
+ * are defined in `doc.lists`; a plain element array renders all lists as `<ul>`.
+ *
+ * @param input - The raw Google Docs document, or an array of its structural elements.
+ * @param options - Rendering options (class names).
+ * @returns The document content as HTML.
+ */
+export function toHtml(
+  input:
+    | DocumentInput
+    | docs_v1.Schema$StructuralElement[]
+    | DocsStructuralElement[],
+  options: HtmlOptions = {}
+): string {
+  if (Array.isArray(input)) {
+    return renderHtml(
+      buildBlocks(input as docs_v1.Schema$StructuralElement[]),
+      options
+    );
+  }
+  const content = (input.body?.content ??
+    []) as docs_v1.Schema$StructuralElement[];
+  const lists = (input.lists ?? {}) as Record<string, docs_v1.Schema$List>;
+  return renderHtml(buildBlocks(content, lists), options);
+}
@@ -1,5 +1,99 @@
-export { getParsedDocument } from "./parser";
+export { getParsedDocument, getParsedDocuments } from "./parser";
 
-export type { ParseSchema } from "./types";
+export { getParsedCollection } from "./drive";
+
+export { parseDocument } from "./document";
+
+export type { DocumentInput, ParseDocumentOptions } from "./document";
+
+export { validateSchema } from "./validate";
+
+export type {
+  ParseDiagnostic,
+  ParseDiagnosticCode,
+  ParseReport,
+} from "./diagnostics";
+
+export type {
+  SchemaIssue,
+  SchemaIssueCode,
+  SchemaValidationResult,
+} from "./validate";
+
+export { inferSchema, formatSchemaModule } from "./infer";
+
+export { toJsonSchema } from "./jsonSchema";
+
+export type { JsonSchema } from "./jsonSchema";
+
+export { toMarkdown } from "./markdown";
+
+export { toHtml } from "./html";
+
+export type { HtmlOptions } from "./html";
+
+export {
+  DocsApiError,
+  DocsAuthError,
+  DocsPermissionError,
+  DocsNotFoundError,
+  DocsRateLimitError,
+  DocsTimeoutError,
+  SchemaError,
+  ParseError,
+  CoercionError,
+  SchemaValidationError,
+  MissingSectionError,
+  MissingNodeError,
+  OutputValidationError,
+} from "./errors";
+
+export type { DocsApiErrorDetails } from "./errors";
+
+export type { StandardSchemaV1, ResultPath } from "./standardSchema";
+
+export type { ParseSchema, TitleNormalizeOptions } from "./types";
+
+export type { Coercion, CoercionType, FieldCoercionMap } from "./types";
+
+export type { NestedList, NestedListItem } from "./types";
+
+export type { RichText, TextSpan } from "./types";
+
+export type { HtmlClassNames, HtmlElementName } from "./types";
 
 export type { GetParsedType } from "./types";
+
+export type {
+  GetParsedDocumentOptions,
+  GetParsedDocumentsOptions,
+} from "./parser";
+
+export type { GetParsedCollectionOptions } from "./drive";
+
+export type {
+  CollectionEntry,
+  DriveFile,
+  FolderListOptions,
+} from "./collection";
+
+export type {
+  BatchOptions,
+  BatchProgress,
+  ParsedDocumentResult,
+} from "./batch";
+
+export type { DocsClientOptions } from "./auth";
+
+export type { RetryOptions, RetryInfo, RetryControlOptions } from "./retry";
+
+export type { RequestSignalOptions } from "./signal";
+
+export { createLruCacheStore } from "./cache";
+
+export type {
+  CacheStore,
+  CacheOptions,
+  CacheControlOptions,
+  LruCacheStoreOptions,
+} from "./cache";
@@ -0,0 +1,346 @@
+import type { docs_v1 } from "googleapis";
+import type { DocumentInput } from "./document";
+import {
+  List,
+  Node,
+  ParseSchema,
+  Schema,
+  Section,
+  SectionContent,
+  TextBlock,
+  Title,
+} from "./types";
+import { getParagraph } from "./cursor";
+
+/**
+ * Delimiters that split a line into positional `keys` fields when every line
+ * has the same number of parts.
+ */
+const FIELD_DELIMITERS = ["|", ";", "·"] as const;
+
+/**
+ * The longest key (in characters) before a `:` for the line to count as "Key: Value".
+ */
+const MAX_KEY_LENGTH = 30;
+
+/**
+ * The most words per comma-separated part for a bullet run to count as a list
+ * of short items (e.g., skills) rather than sentences.
+ */
+const MAX_ITEM_WORDS = 4;
+
+/**
+ * A paragraph or table of the document body, reduced to what inference needs.
+ */
+interface InferItem {
+  text: string;
+  /** The heading level (1-6), or `null` for body text and tables. */
+  level: number | null;
+  isBullet: boolean;
+  isTable: boolean;
+}
+
+/**
+ * A heading together with the items up to the next heading of the same or a higher level.
+ */
+interface HeadingGroup {
+  heading: string;
+  body: InferItem[];
+}
+
+/**
+ * Returns the level of a `HEADING_n` style, or `null` for any other style.
+ * `TITLE` and `SUBTITLE` are treated as document titles, not as headings.
+ */
+function getHeadingLevel(style: string | undefined): number | null {
+  const match = /^HEADING_([1-6])$/.exec(style ?? "");
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Reduces the document body to non-empty paragraphs and tables.
+ */
+function collectItems(doc: DocumentInput): InferItem[] {
+  const elementList = (doc.body?.content ??
+    []) as docs_v1.Schema$StructuralElement[];
+  const itemList: InferItem[] = [];
+  for (const element of elementList) {
+    if (element.table) {
+      itemList.push({ text: "", level: null, isBullet: false, isTable: true });
+      continue;
+    }
+    const paragraph = element.paragraph && getParagraph(element.paragraph);
+    if (!paragraph) continue;
+    if (paragraph.style === "TITLE" || paragraph.style === "SUBTITLE") continue;
+    itemList.push({
+      text: paragraph.text,
+      level: getHeadingLevel(paragraph.style),
+      isBullet: !!paragraph.paragraph.bullet,
+      isTable: false,
+    });
+  }
+  return itemList;
+}
+
+/**
+ * Returns the highest heading level (smallest number) among the items, or `null`
+ * if there are no headings.
+ */
+function getTopLevel(itemList: InferItem[]): number | null {
+  const levelList = itemList.flatMap((item) =>
+    item.level === null ? [] : [item.level]
+  );
+  return levelList.length > 0 ? Math.min(...levelList) : null;
+}
+
+/**
+ * Splits items at each heading of the given level. Items before the first such
+ * heading are dropped, as the parser would skip them.
+ */
+function splitByLevel(itemList: InferItem[], level: number): HeadingGroup[] {
+  const groupList: HeadingGroup[] = [];
+  for (const item of itemList) {
+    if (item.level === level) {
+      groupList.push({ heading: item.text, body: [] });
+    } else {
+      groupList[groupList.length - 1]?.body.push(item);
+    }
+  }
+  return groupList;
+}
+
+/**
+ * Returns whether a line reads as "Key: Value" (and not, e.g., as a URL).
+ */
+function hasKeyDelimiter(line: string): boolean {
+  const index = line.indexOf(":");
+  return index > 0 && index <= MAX_KEY_LENGTH && line[index + 1] !== "/";
+}
+
+/**
+ * Detects a consistent structure in a set of lines:
+ * - `keyDelimiter: ":"` if every line reads as "Key: Value".
+ * - `delimiter` and placeholder `keys` (`field1`, `field2`, ...) if every line
+ *   splits into the same number (2+) of parts on `|`, `;`, or `·`.
+ *
+ * @param lineList - The heading texts or content lines of one schema level.
+ * @returns The detected options, or an empty object.
+ */
+function inferTextStructure(
+  lineList: string[]
+): Pick<Schema, "keys" | "delimiter" | "keyDelimiter"> {
+  if (lineList.length === 0) return {};
+  if (lineList.every(hasKeyDelimiter)) return { keyDelimiter: ":" };
+
+  for (const delimiter of FIELD_DELIMITERS) {
+    const countList = lineList.map((line) => line.split(delimiter).length);
+    const [count = 0] = countList;
+    if (count >= 2 && countList.every((c) => c === count)) {
+      const keys = Array.from({ length: count }, (_, i) => `field${i + 1}`);
+      return { delimiter, keys };
+    }
+  }
+  return {};
+}
+
+/**
+ * Infers the content of a bullet run: a keyed or fielded list if the lines are
+ * structured, a flattened list of short items, or one string per paragraph for
+ * sentences (which a list would split on commas).
+ */
+function inferBulletContent(lineList: string[]): List | TextBlock {
+  const structure = inferTextStructure(lineList);
+  if (Object.keys(structure).length > 0) {
+    return { kind: "list", ...structure };
+  }
+
+  const isShortItemList = lineList.every((line) =>
+    line
+      .split(",")
+      .every((part) => part.trim().split(/\s+/).length <= MAX_ITEM_WORDS)
+  );
+  return isShortItemList
+    ? { kind: "list", isFlatten: true }
+    : { kind: "text", paragraphs: true };
+}
+
+/**
+ * Infers a tree node from the bodies of its parents: the node title from the
+ * headings of the given level, and its content from what lies under them.
+ *
+ * @param bodyList - The bodies of the parent headings.
+ * @param level - The heading level of this node.
+ * @returns The node schema.
+ */
+function inferNode(bodyList: InferItem[][], level: number): Node {
+  const groupList = bodyList.flatMap((body) => splitByLevel(body, level));
+  const title: Title = {
+    namedStyleType: `HEADING_${level}`,
+    ...inferTextStructure(groupList.map((group) => group.heading)),
+  };
+  const node: Node = { title };
+
+  const childList = groupList.flatMap((group) => group.body);
+  const childLevel = getTopLevel(childList);
+  if (childLevel !== null) {
+    node.content = {
+      kind: "tree",
+      node: inferNode(
+        groupList.map((group) => group.body),
+        childLevel
+      ),
+    };
+    return node;
+  }
+
+  const lineList = childList.flatMap((item) =>
+    item.isTable ? [] : [item.text]
+  );
+  if (lineList.length > 0) {
+    // Detail lines are parsed like a list section, so unstructured lines are
+    // flattened instead of giving one array per line.
+    const structure = inferTextStructure(lineList);
+    node.content = {
+      kind: "list",
+      ...(Object.keys(structure).length > 0 ? structure : { isFlatten: true }),
+    };
+  }
+  return node;
+}
+
+/**
+ * Infers the content of a section from the items under its heading.
+ *
+ * @returns The content schema, or `undefined` for a plain text block.
+ */
+function inferSectionContent(body: InferItem[]): SectionContent | undefined {
+  const nodeLevel = getTopLevel(body);
+  if (nodeLevel !== null) {
+    return { kind: "tree", node: inferNode([body], nodeLevel) };
+  }
+
+  const lineItemList = body.filter((item) => !item.isTable);
+  if (lineItemList.length === 0) {
+    return body.length > 0 ? { kind: "table", header: true } : undefined;
+  }
+  if (lineItemList.every((item) => item.isBullet)) {
+    return inferBulletContent(lineItemList.map((item) => item.text));
+  }
+  return undefined;
+}
+
+/**
+ * Public API: Generates a starter `ParseSchema` from an existing document.
+ *
+ * - The highest heading level in the document (e.g., `HEADING_1`) becomes the
+ *   sections, named after the heading text. Repeated headings keep the first.
+ * - Lower heading levels under a section become a `tree`, one node level per
+ *   heading level.
+ * - Bullet runs become a `list`; tables become a `table` with a header row;
+ *   anything else stays a text block.
+ * - Consistent `Key: Value` lines get a `keyDelimiter`, and lines with the same
+ *   number of `|`, `;`, or `·` separated parts get a `delimiter` and placeholder
+ *   `keys` (`field1`, `field2`, ...).
+ *
+ * The result is a starting point to review and rename, e.g. after printing it
+ * with `formatSchemaModule`.
+ *
+ * @param doc - The document to inspect.
+ * @returns The inferred schema (with no sections if the document has no headings).
+ */
+export function inferSchema(doc: DocumentInput): ParseSchema {
+  const itemList = collectItems(doc);
+  const level = getTopLevel(itemList);
+  if (level === null) return { sections: [] };
+
+  const sectionList: Section[] = [];
+  const seenNames = new Set<string>();
+  for (const { heading, body } of splitByLevel(itemList, level)) {
+    const key = heading.trim().toLowerCase();
+    if (seenNames.has(key)) continue;
+    seenNames.add(key);
+
+    const section: Section = {
+      title: { name: heading, namedStyleType: `HEADING_${level}` },
+    };
+    const content = inferSectionContent(body);
+    if (content) section.content = content;
+    sectionList.push(section);
+  }
+  return { sections: sectionList };
+}
+
+/**
+ * The widest line (including indentation) for values printed on a single line.
+ */
+const MAX_INLINE_WIDTH = 80;
+
+/**
+ * Formats an object key, quoting it only when it is not a valid identifier.
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Formats a value as a TypeScript literal on a single line.
+ */
+function formatInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatInline).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entryList = Object.entries(value).map(
+      ([key, item]) => `${formatKey(key)}: ${formatInline(item)}`
+    );
+    return entryList.length > 0 ? `{ ${entryList.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * Formats a value as a TypeScript literal, breaking arrays and objects over
+ * several lines when they do not fit on one.
+ */
+function formatLiteral(value: unknown, indent: string): string {
+  const inline = formatInline(value);
+  if (
+    !value ||
+    typeof value !== "object" ||
+    indent.length + inline.length <= MAX_INLINE_WIDTH
+  ) {
+    return inline;
+  }
+  const innerIndent = `${indent}  `;
+  if (Array.isArray(value)) {
+    const lineList = value.map(
+      (item) => `${innerIndent}${formatLiteral(item, innerIndent)},`
+    );
+    return `[\n${lineList.join("\n")}\n${indent}]`;
+  }
+  const lineList = Object.entries(value).map(
+    ([key, item]) =>
+      `${innerIndent}${formatKey(key)}: ${formatLiteral(item, innerIndent)},`
+  );
+  return `{\n${lineList.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Public API: Prints a schema as a TypeScript module exporting it with
+ * `as const satisfies ParseSchema`, ready to save and edit.
+ *
+ * @param parseSchema - The schema (e.g., from `inferSchema`).
+ * @param exportName - The name of the exported constant. Defaults to `"schema"`.
+ * @returns The module source.
+ */
+export function formatSchemaModule(
+  parseSchema: ParseSchema,
+  exportName = "schema"
+): string {
+  return [
+    'import type { ParseSchema } from "@yuji-min/google-docs-parser";',
+    "",
+    `export const ${exportName} = ${formatLiteral(parseSchema, "")} as const satisfies ParseSchema;`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,350 @@
+import {
+  Coercion,
+  List,
+  Node,
+  ParseSchema,
+  Schema,
+  Section,
+  Table,
+  Title,
+} from "./types";
+import { hasDelimiterSchema } from "./utils";
+import { isFieldCoercionMap, resolveCoercion } from "./coerce";
+
+/**
+ * The JSON Schema dialect produced by `toJsonSchema`.
+ */
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * A JSON Schema (Draft 2020-12) document or subschema.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Shared definitions referenced by the generated schemas.
+ */
+const DEFINITIONS: Record<string, JsonSchema> = {
+  RichText: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        bold: { const: true },
+        italic: { const: true },
+        underline: { const: true },
+        strikethrough: { const: true },
+        code: { const: true },
+        link: { type: "string" },
+      },
+      required: ["text"],
+      additionalProperties: false,
+    },
+  },
+  NestedListItem: nestedListItemSchema("NestedListItem", { type: "string" }),
+  RichNestedListItem: nestedListItemSchema("RichNestedListItem", {
+    $ref: "#/$defs/RichText",
+  }),
+};
+
+const STRING: JsonSchema = { type: "string" };
+const RICH_TEXT: JsonSchema = { $ref: "#/$defs/RichText" };
+
+/**
+ * Describes a `NestedListItem` whose children refer back to the same definition.
+ */
+function nestedListItemSchema(name: string, text: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      text,
+      children: { type: "array", items: { $ref: `#/$defs/${name}` } },
+    },
+    required: ["text", "children"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Describes an array of items.
+ */
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+/**
+ * Describes the JSON value produced by a coercion. `Date` values are described
+ * as the ISO strings they serialize to.
+ */
+function coercionSchema(coercion: Coercion | undefined): JsonSchema {
+  if (coercion === undefined) return STRING;
+  if (typeof coercion === "function") return {};
+  if (typeof coercion === "object") return { enum: [...coercion.enum] };
+  switch (coercion) {
+    case "number":
+      return { type: "number" };
+    case "integer":
+      return { type: "integer" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "url":
+      return { type: "string", format: "uri" };
+    default:
+      return STRING;
+  }
+}
+
+/**
+ * Describes a positional field (`keys` or a table cell), which becomes `null` when
+ * empty under a built-in coercion other than `"string"`.
+ */
+function fieldSchema(coercion: Coercion | undefined): JsonSchema {
+  const schema = coercionSchema(coercion);
+  if (!coercion || typeof coercion === "function" || coercion === "string") {
+    return schema;
+  }
+  if (Array.isArray(schema.enum)) return { enum: [...schema.enum, null] };
+  return { ...schema, type: [schema.type, "null"] };
+}
+
+/**
+ * Describes an object mapped from positional `keys`.
+ */
+function fieldsSchema(
+  keys: readonly string[],
+  schema: Schema | Table
+): JsonSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      keys.map((key) => [key, fieldSchema(resolveCoercion(schema, key))])
+    ),
+    required: [...keys],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Describes a `{ key, value }` item parsed with `keyDelimiter`. Lines without the
+ * delimiter are kept as strings.
+ */
+function keyedItemSchema(schema: Schema): JsonSchema {
+  const keyedItem = (key: JsonSchema, value: JsonSchema): JsonSchema => ({
+    type: "object",
+    properties: { key, value: arrayOf(value) },
+    required: ["key", "value"],
+    additionalProperties: false,
+  });
+  const { coerce } = schema;
+  if (!coerce || !isFieldCoercionMap(coerce)) {
+    return { anyOf: [keyedItem(STRING, coercionSchema(coerce)), STRING] };
+  }
+  const mappedKeys = Object.keys(coerce);
+  return {
+    anyOf: [
+      ...mappedKeys.map((key) =>
+        keyedItem({ const: key }, coercionSchema(coerce[key]))
+      ),
+      keyedItem({ type: "string", not: { enum: mappedKeys } }, STRING),
+      STRING,
+    ],
+  };
+}
+
+/**
+ * Describes the value `parseStructuredText` returns for a line.
+ */
+function structuredTextSchema(schema: Schema): JsonSchema {
+  if (schema.keyDelimiter) return keyedItemSchema(schema);
+  if (schema.keys && schema.keys.length > 0) {
+    return fieldsSchema(schema.keys, schema);
+  }
+  return arrayOf(coercionSchema(resolveCoercion(schema)));
+}
+
+/**
+ * Describes the items `appendListItem` adds for each line. Items replaced by the
+ * output of a `validate` validator are described as any value.
+ */
+function listItemsSchema(list: List): JsonSchema {
+  if (list.validate) return arrayOf({});
+  const itemSchema = structuredTextSchema(list);
+  // Flattening spreads the values of plain delimited lines into the list.
+  const isSpread =
+    !!list.isFlatten &&
+    !list.keyDelimiter &&
+    !(list.keys && list.keys.length > 0);
+  return arrayOf(isSpread ? (itemSchema.items as JsonSchema) : itemSchema);
+}
+
+/**
+ * Describes the parsed title of a tree node (any value when it is replaced by the
+ * output of a `validate` validator).
+ */
+function titleSchema(title: Title): JsonSchema {
+  if (title.validate) return {};
+  return hasDelimiterSchema(title) ? structuredTextSchema(title) : STRING;
+}
+
+/**
+ * Describes the `content` of a tree node. Detail lines are parsed like a list
+ * section.
+ */
+function nodeContentSchema(content: Node["content"]): JsonSchema {
+  if (content?.kind === "tree") return nodeListSchema(content.node);
+  if (content?.kind === "list") return listSchema(content);
+  return arrayOf(STRING);
+}
+
+/**
+ * Describes the array of nodes of one tree level, applying `required` and `default`.
+ */
+function nodeListSchema(node: Node): JsonSchema {
+  const schema: JsonSchema = arrayOf({
+    type: "object",
+    properties: {
+      title: titleSchema(node.title),
+      content: nodeContentSchema(node.content),
+    },
+    required: ["title", "content"],
+    additionalProperties: false,
+  });
+  if (node.required) return { ...schema, minItems: 1 };
+  if (node.default !== undefined) {
+    return { anyOf: [schema, { const: node.default }] };
+  }
+  return schema;
+}
+
+/**
+ * Describes the rows of a table section.
+ */
+function tableSchema(table: Table): JsonSchema {
+  if (table.keys && table.keys.length > 0) {
+    return arrayOf(fieldsSchema(table.keys, table));
+  }
+  if (table.header) {
+    const { coerce } = table;
+    const mappedProperties =
+      coerce && isFieldCoercionMap(coerce)
+        ? Object.fromEntries(
+            Object.keys(coerce).map((key) => [key, fieldSchema(coerce[key])])
+          )
+        : {};
+    return arrayOf({
+      type: "object",
+      properties: mappedProperties,
+      additionalProperties: fieldSchema(resolveCoercion(table)),
+    });
+  }
+  return arrayOf(arrayOf(fieldSchema(resolveCoercion(table))));
+}
+
+/**
+ * Describes the items of a list section (or of a tree node's detail lines).
+ */
+function listSchema(list: List): JsonSchema {
+  if (list.nested) {
+    const itemName = list.richText ? "RichNestedListItem" : "NestedListItem";
+    return arrayOf({
+      type: "object",
+      properties: {
+        listId: { type: ["string", "null"] },
+        bulleted: { type: "boolean" },
+        items: arrayOf({ $ref: `#/$defs/${itemName}` }),
+      },
+      required: ["listId", "bulleted", "items"],
+      additionalProperties: false,
+    });
+  }
+  if (list.richText && !list.validate) return arrayOf(RICH_TEXT);
+  return listItemsSchema(list);
+}
+
+/**
+ * Describes the parsed content of a section, before `required` and `default`.
+ */
+function sectionContentSchema(section: Section): JsonSchema {
+  const { content } = section;
+  switch (content?.kind) {
+    case "tree":
+      return nodeListSchema(content.node);
+    case "list":
+      return listSchema(content);
+    case "table":
+      return tableSchema(content);
+    case "text": {
+      if (content.format === "markdown" || content.format === "html") {
+        return STRING;
+      }
+      const item = content.richText ? RICH_TEXT : STRING;
+      return content.paragraphs ? arrayOf(item) : item;
+    }
+    default:
+      return STRING;
+  }
+}
+
+/**
+ * Public API: Describes the output of `parseDocument` for a schema as a JSON Schema
+ * (Draft 2020-12), for consumers that cannot use `GetParsedType` (other languages,
+ * API docs). The result can be used as an OpenAPI 3.1 schema object.
+ *
+ * - Each named section is a property; sections with `required` or `default` are
+ *   listed in `required`, and a `default` value is allowed alongside the content.
+ * - Coerced values use their JSON types (`date` values as `date-time` strings,
+ *   custom coercion functions as any value); empty coerced `keys` fields and table
+ *   cells allow `null`.
+ * - Lines without a `keyDelimiter` are allowed as plain strings, as they are kept.
+ * - List items and tree node titles with a `validate` option allow any value, since
+ *   the validator's output is not known.
+ * - Rich text and nested list items are shared under `$defs`.
+ *
+ * @param parseSchema - The schema used for parsing.
+ * @returns The JSON Schema of the parse result.
+ */
+export function toJsonSchema(parseSchema: ParseSchema): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const section of parseSchema.sections) {
+    const name = section.title.name;
+    if (!name || Object.hasOwn(properties, name)) continue;
+
+    const content = sectionContentSchema(section);
+    const hasDefault = !section.required && "default" in section;
+    properties[name] = hasDefault
+      ? { anyOf: [content, { const: section.default ?? null }] }
+      : content;
+    if (section.required || hasDefault) required.push(name);
+  }
+
+  // Round-trip through JSON so the result is plain data: shared subschemas are
+  // copied, and `default` values are described as they serialize.
+  const json = JSON.stringify(properties);
+  const $defs = Object.fromEntries(
+    Object.entries(DEFINITIONS).filter(
+      ([name]) =>
+        json.includes(`"#/$defs/${name}"`) ||
+        (name === "RichText" && json.includes("RichNestedListItem"))
+    )
+  );
+  return JSON.parse(
+    JSON.stringify({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: "object",
+      properties,
+      required,
+      additionalProperties: false,
+      ...(Object.keys($defs).length > 0 && { $defs }),
+    })
+  ) as JsonSchema;
+}
@@ -1,6 +1,7 @@
-import { Section } from "./types";
-import { ParagraphCursor } from "./cursor";
-import { parseStructuredText } from "./utils";
+import { List, NestedList, NestedListItem, Section } from "./types";
+import { ParagraphCursor, Paragraph } from "./cursor";
+import { extractRichText, parseStructuredText } from "./utils";
+import { validateItem, ResultPath } from "./standardSchema";
 
 /**
  * Parses a section defined as a 'List'.
@@ -8,6 +9,7 @@ import { parseStructuredText } from "./utils";
  * This function iterates through paragraphs, parsing each line according to the
  * section's content schema (e.g., delimiters, keys). It supports both flat lists
  * and nested structures depending on the `isFlatten` configuration.
+ * With `nested: true`, it delegates to `parseNestedListSection` instead.
  *
  * @param cursor - The cursor traversing the document paragraphs.
  * @param section - The section definition containing the list schema.
@@ -21,11 +23,39 @@ export function parseListSection(
   if (!section.content || section.content.kind !== "list") {
     return [];
   }
-  const contentSchema = section.content;
+  appendListItems(result, cursor, section.content, [section.title.name ?? ""]);
+  return result;
+}
+
+/**
+ * Parses the paragraphs up to the next section or heading as list items and
+ * appends them to the result.
+ *
+ * Shared by list sections and the detail lines of tree nodes, so both parse lines
+ * the same way (rich text, nested groups, delimiters, keys, coercion, validation).
+ *
+ * @param result - The list items built so far (mutated).
+ * @param cursor - The cursor traversing the document paragraphs.
+ * @param contentSchema - The list schema.
+ * @param path - The position of the list in the parse result, for validation errors.
+ * @throws {CoercionError} If a value cannot be converted by `contentSchema.coerce`.
+ * @throws {OutputValidationError} If an item is rejected by `contentSchema.validate`.
+ */
+export function appendListItems(
+  result: unknown[],
+  cursor: ParagraphCursor,
+  contentSchema: List,
+  path: ResultPath = []
+): void {
+  if (contentSchema.nested) {
+    result.push(...parseNestedListSection(cursor, contentSchema.richText));
+    return;
+  }
 
   while (!cursor.isEndOfDocument()) {
     const info = cursor.getCurrentParagraph();
     if (!info) {
+      cursor.reportIgnoredElement();
       cursor.getNextParagraph();
       continue;
     }
@@ -33,14 +63,169 @@ export function parseListSection(
     if (cursor.isAtNewSection()) break;
     if (cursor.isAtParagraphHeading()) break;
 
-    const parsed = parseStructuredText(info.text, contentSchema);
+    if (contentSchema.richText) {
+      pushListItem(
+        result,
+        extractRichText(info.paragraph),
+        info.text,
+        contentSchema,
+        path
+      );
+      cursor.getNextParagraph();
+      continue;
+    }
+
+    appendListItem(result, info.text, contentSchema, path);
+    cursor.getNextParagraph();
+  }
+}
+
+/**
+ * Appends an item to a list, running the list's `validate` option first.
+ *
+ * @param result - The list items built so far (mutated).
+ * @param item - The parsed item.
+ * @param text - The paragraph text the item was parsed from.
+ * @param contentSchema - The list schema.
+ * @param path - The position of the list in the parse result.
+ * @throws {OutputValidationError} If the item is rejected by `contentSchema.validate`.
+ */
+export function pushListItem(
+  result: unknown[],
+  item: unknown,
+  text: string,
+  contentSchema: List,
+  path: ResultPath = []
+): void {
+  result.push(
+    contentSchema.validate
+      ? validateItem(contentSchema.validate, item, {
+          path: [...path, result.length],
+          text,
+        })
+      : item
+  );
+}
+
+/**
+ * Parses a single list line and appends it to the result, spreading its values
+ * when `isFlatten` is set.
+ *
+ * @param result - The list items built so far (mutated).
+ * @param text - The paragraph text.
+ * @param contentSchema - The list schema (delimiters, keys, coercion, validation).
+ * @param path - The position of the list in the parse result, for validation errors.
+ * @throws {CoercionError} If a value cannot be converted by `contentSchema.coerce`.
+ * @throws {OutputValidationError} If an item is rejected by `contentSchema.validate`.
+ */
+export function appendListItem(
+  result: unknown[],
+  text: string,
+  contentSchema: List,
+  path: ResultPath = []
+): void {
+  const parsed = parseStructuredText(text, contentSchema);
+  const itemList =
+    contentSchema.isFlatten && Array.isArray(parsed) ? parsed : [parsed];
+
+  for (const item of itemList) {
+    pushListItem(result, item, text, contentSchema, path);
+  }
+}
+
+/**
+ * Tracks the state of the list group currently being built.
+ */
+interface NestedListBuilder {
+  group: NestedList<unknown>;
+  /** Open items by nesting level, innermost last. */
+  stack: Array<{ level: number; item: NestedListItem<unknown> }>;
+}
+
+/**
+ * Adds a paragraph to the nested list groups, starting a new group when the
+ * bullet list (or bulleted/plain state) changes.
+ *
+ * Items are attached to the nearest preceding item with a lower nesting level,
+ * so skipped levels (e.g., 0 → 2) still nest correctly.
+ *
+ * @param groups - The groups built so far (mutated).
+ * @param builder - The builder for the current group, or `null` if none.
+ * @param info - The paragraph to add.
+ * @param text - The item value (plain text or rich text).
+ * @returns The builder for the group the paragraph was added to.
+ */
+function appendNestedListItem(
+  groups: NestedList<unknown>[],
+  builder: NestedListBuilder | null,
+  info: Paragraph,
+  text: unknown
+): NestedListBuilder {
+  const bullet = info.paragraph.bullet;
+  const bulleted = !!bullet;
+  const listId = bullet?.listId ?? null;
+  const level = bulleted ? bullet?.nestingLevel ?? 0 : 0;
+
+  let current = builder;
+  if (
+    !current ||
+    current.group.bulleted !== bulleted ||
+    current.group.listId !== listId
+  ) {
+    const group: NestedList<unknown> = { listId, bulleted, items: [] };
+    groups.push(group);
+    current = { group, stack: [] };
+  }
+
+  const item: NestedListItem<unknown> = { text, children: [] };
+  while (current.stack.length > 0) {
+    const top = current.stack[current.stack.length - 1];
+    if (top && top.level < level) break;
+    current.stack.pop();
+  }
+
+  const parent = current.stack[current.stack.length - 1];
+  if (parent) {
+    parent.item.children.push(item);
+  } else {
+    current.group.items.push(item);
+  }
+  current.stack.push({ level, item });
+  return current;
+}
 
-    if (contentSchema.isFlatten && Array.isArray(parsed)) {
-      result.push(...parsed);
-    } else {
-      result.push(parsed);
+/**
+ * Parses a list section into nested list groups based on bullet nesting levels.
+ *
+ * **Stop Conditions:**
+ * 1. **New Section:** The cursor reaches a paragraph that marks the start of a new section defined in the schema.
+ * 2. **Heading:** The cursor reaches any paragraph with a named heading style.
+ *
+ * @param cursor - The cursor traversing the document paragraphs.
+ * @param richText - If true, item texts are `RichText` instead of strings.
+ * @returns An array of list groups, each containing nested items.
+ */
+export function parseNestedListSection(
+  cursor: ParagraphCursor,
+  richText = false
+): NestedList<unknown>[] {
+  const groups: NestedList<unknown>[] = [];
+  let builder: NestedListBuilder | null = null;
+
+  while (!cursor.isEndOfDocument()) {
+    const info = cursor.getCurrentParagraph();
+    if (!info) {
+      cursor.reportIgnoredElement();
+      cursor.getNextParagraph();
+      continue;
     }
+
+    if (cursor.isAtNewSection()) break;
+    if (cursor.isAtParagraphHeading()) break;
+
+    const text = richText ? extractRichText(info.paragraph) : info.text;
+    builder = appendNestedListItem(groups, builder, info, text);
     cursor.getNextParagraph();
   }
-  return result;
+  return groups;
 }
@@ -0,0 +1,218 @@
+import type { docs_v1 } from "googleapis";
+import { RichText, TextSpan } from "./types";
+import { ParagraphCursor } from "./cursor";
+import type { DocumentInput } from "./document";
+import type { DocsStructuralElement } from "./edge/types";
+import { Block, ListBlock, buildBlocks, collectBlockElements } from "./blocks";
+import { isSafeUrl } from "./utils";
+
+/**
+ * Characters with inline meaning in CommonMark/GFM, including `&`, which would
+ * otherwise start an entity reference such as `&lt;`.
+ */
+const MARKDOWN_SPECIAL_CHARS = /[\\`*_[\]<>~|&]/g;
+
+/**
+ * Line starts (after up to three spaces of indentation) that would otherwise be read
+ * as a heading, bullet, numbered list item, thematic break (`---`), or setext heading
+ * underline (`===`). Matches every line, since hard breaks start new lines within a
+ * paragraph. (`*`, `_`, and `>` are already covered by `MARKDOWN_SPECIAL_CHARS`.)
+ */
+const MARKDOWN_BLOCK_START =
+  /^( {0,3})(#{1,6}(?=\s|$)|[-+](?=\s|$)|[-=](?=[-=\s]*$)|\d+(?=[.)](?:\s|$)))/gm;
+
+/**
+ * Escapes Markdown syntax in plain text and converts vertical tabs (Google Docs
+ * line breaks within a paragraph) into hard line breaks.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(MARKDOWN_SPECIAL_CHARS, "\\$&")
+    .replace(/\u000b/g, "\\\n");
+}
+
+/**
+ * Wraps text in a code span, using a fence longer than any backtick run inside it.
+ */
+function toCodeSpan(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Percent-encodes the characters that would end a Markdown link destination early.
+ * Unsafe URLs are rejected before this (see `isSafeUrl`).
+ */
+function encodeLinkDestination(url: string): string {
+  return url
+    .replace(/ /g, "%20")
+    .replace(/\(/g, "%28")
+    .replace(/\)/g, "%29");
+}
+
+/**
+ * Renders a single span, keeping surrounding whitespace outside of emphasis markers
+ * (CommonMark does not close `**text **`).
+ *
+ * Underline has no Markdown equivalent and is dropped. Links with unsafe schemes
+ * (e.g., `javascript:`) are rendered as plain text, as in `renderInlineHtml`.
+ */
+function renderSpan(span: TextSpan): string {
+  const [, leading = "", body = "", trailing = ""] =
+    /^(\s*)([\s\S]*?)(\s*)$/.exec(span.text) ?? [];
+  if (!body) return escapeMarkdown(span.text);
+
+  let rendered = span.code ? toCodeSpan(body) : escapeMarkdown(body);
+  if (span.strikethrough) rendered = `~~${rendered}~~`;
+  if (span.italic) rendered = `*${rendered}*`;
+  if (span.bold) rendered = `**${rendered}**`;
+  if (span.link && isSafeUrl(span.link)) {
+    rendered = `[${rendered}](${encodeLinkDestination(span.link)})`;
+  }
+
+  return `${escapeMarkdown(leading)}${rendered}${escapeMarkdown(trailing)}`;
+}
+
+/**
+ * Renders rich text as inline Markdown.
+ *
+ * @param spans - The rich text to render.
+ * @returns The Markdown string.
+ */
+export function renderInlineMarkdown(spans: RichText): string {
+  return spans.map(renderSpan).join("");
+}
+
+/**
+ * Escapes line starts that would change the block structure (see `MARKDOWN_BLOCK_START`).
+ */
+function escapeBlockStarts(text: string): string {
+  return text.replace(
+    MARKDOWN_BLOCK_START,
+    (_, indent: string, marker: string) =>
+      /^\d/.test(marker) ? `${indent}${marker}\\` : `${indent}\\${marker}`
+  );
+}
+
+/**
+ * Renders a list, indenting nested lists under the content of their parent item.
+ */
+function renderList(list: ListBlock, indent = ""): string {
+  return list.items
+    .map((item, index) => {
+      const marker = list.ordered ? `${index + 1}. ` : "- ";
+      const childIndent = indent + " ".repeat(marker.length);
+      const content = escapeBlockStarts(
+        renderInlineMarkdown(item.content)
+      ).replace(
+        /\n/g,
+        `\n${childIndent}`
+      );
+      const line = `${indent}${marker}${content}`;
+      return item.children
+        ? `${line}\n${renderList(item.children, childIndent)}`
+        : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a table as a GFM table, using the first row as the header.
+ */
+function renderTable(rows: RichText[][]): string {
+  const columns = Math.max(0, ...rows.map((row) => row.length));
+  if (columns === 0) return "";
+
+  const renderRow = (row: RichText[]) =>
+    `| ${Array.from({ length: columns }, (_, index) =>
+      renderInlineMarkdown(row[index] ?? []).replace(/\\\n/g, "<br>")
+    ).join(" | ")} |`;
+
+  const [header = [], ...body] = rows;
+  return [
+    renderRow(header),
+    `| ${Array(columns).fill("---").join(" | ")} |`,
+    ...body.map(renderRow),
+  ].join("\n");
+}
+
+/**
+ * Renders a single block as Markdown.
+ */
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case "heading":
+      return `${"#".repeat(block.level)} ${renderInlineMarkdown(block.content)}`;
+    case "list":
+      return renderList(block);
+    case "table":
+      return renderTable(block.rows);
+    case "paragraph":
+      return escapeBlockStarts(renderInlineMarkdown(block.content));
+  }
+}
+
+/**
+ * Renders blocks as CommonMark/GFM, separated by blank lines.
+ *
+ * @param blocks - The blocks to render (see `buildBlocks`).
+ * @returns The Markdown string.
+ */
+export function renderMarkdown(blocks: Block[]): string {
+  return blocks
+    .map(renderBlock)
+    .filter((text) => text.length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Parses a text block section as Markdown.
+ *
+ * Collects paragraphs, lists, and tables until the next section or heading
+ * (see `collectBlockElements`) and renders them with `renderMarkdown`.
+ *
+ * @param cursor - The cursor traversing the document elements.
+ * @returns The section content as Markdown.
+ */
+export function parseMarkdownSection(cursor: ParagraphCursor): string {
+  return renderMarkdown(
+    buildBlocks(collectBlockElements(cursor), cursor.getLists())
+  );
+}
+
+/**
+ * Converts a whole Google Docs document (or a slice of its structural elements) to Markdown.
+ *
+ * Produces CommonMark with GFM tables and strikethrough:
+ * - Heading styles become `#` headings (TITLE → `#`, SUBTITLE → `##`, HEADING_n → n × `#`).
+ * - Bullets become nested `-` lists, or `1.` lists when the list level is numbered.
+ * - Bold, italic, strikethrough, monospace fonts, and links become inline Markdown.
+ * - Tables become GFM tables with the first row as the header.
+ *
+ * Numbered lists are only detected from a full document, since their glyph types
+ * are defined in `doc.lists`; a plain element array renders all lists as bullets.
+ *
+ * @param input - The raw Google Docs document, or an array of its structural elements.
+ * @returns The document content as Markdown.
+ */
+export function toMarkdown(
+  input:
+    | DocumentInput
+    | docs_v1.Schema$StructuralElement[]
+    | DocsStructuralElement[]
+): string {
+  if (Array.isArray(input)) {
+    return renderMarkdown(
+      buildBlocks(input as docs_v1.Schema$StructuralElement[])
+    );
+  }
+  const content = (input.body?.content ??
+    []) as docs_v1.Schema$StructuralElement[];
+  const lists = (input.lists ?? {}) as Record<string, docs_v1.Schema$List>;
+  return renderMarkdown(buildBlocks(content, lists));
+}
@@ -1,49 +1,77 @@
 import type { docs_v1 } from "googleapis";
-import { ParsedDocument, ParseSchema, GetParsedType } from "./types";
-import { ParagraphCursor } from "./cursor";
-import { parseSectionContent } from "./section";
-import { createDocsClient } from "./auth";
+import { ParseSchema, GetParsedType } from "./types";
+import { parseDocument, ParseDocumentOptions } from "./document";
+import {
+  createDocsClient,
+  getCredentialIdentity,
+  DocsClientOptions,
+} from "./auth";
+import { assertValidSchema } from "./validate";
+import type { ParseReport } from "./diagnostics";
+import { toDocsApiError, toParseError } from "./errors";
+import { withRetry, RetryControlOptions } from "./retry";
+import { runWithSignal, RequestSignalOptions } from "./signal";
+import { getCacheKey, getCachedResult, CacheControlOptions } from "./cache";
+import { mapSettled, BatchOptions, ParsedDocumentResult } from "./batch";
 
 /**
- * Parses the raw Google Docs document content according to the provided schema.
- *
- * This function converts the document into a stream of valid paragraphs and
- * uses a cursor to navigate and parse sections based on the schema definition.
- *
- * @param doc - The raw Google Docs document object.
- * @param parseSchema - The schema defining the structure of sections to parse.
- * @returns An object representing the parsed document content.
+ * Options for `getParsedDocument`.
  */
-function parseDocument(
-  doc: docs_v1.Schema$Document,
-  parseSchema: ParseSchema
-): ParsedDocument {
-  const content = doc.body?.content || [];
-  const result: ParsedDocument = {};
-
-  const validParagraphList = content
-    .map((element) => element.paragraph)
-    .filter((paragraph): paragraph is docs_v1.Schema$Paragraph => !!paragraph);
+export interface GetParsedDocumentOptions
+  extends DocsClientOptions,
+    ParseDocumentOptions,
+    RetryControlOptions,
+    RequestSignalOptions,
+    CacheControlOptions {}
 
-  const cursor = new ParagraphCursor(validParagraphList, parseSchema);
+/**
+ * Options for `getParsedDocuments`: the `getParsedDocument` options applied to
+ * each document, plus the batch options.
+ *
+ * @template R - The result type of each document.
+ */
+export interface GetParsedDocumentsOptions<R = unknown>
+  extends GetParsedDocumentOptions,
+    BatchOptions<R> {}
 
-  while (!cursor.isEndOfDocument()) {
-    const currentSectionTitle = cursor.getCurrentSectionTitle();
-    if (currentSectionTitle) {
-      const section = parseSchema.sections.find(
-        (s) => s.title.name === currentSectionTitle
-      );
-      if (section) {
-        cursor.getNextParagraph();
-        const parsedData = parseSectionContent(cursor, section);
-        result[currentSectionTitle] = parsedData;
-        continue;
-      }
+/**
+ * Fetches a document, applying the retry, signal, and timeout options.
+ *
+ * @param documentId - The ID of the Google Doc.
+ * @param options - The client, retry, signal, and timeout options.
+ * @returns The document.
+ * @throws {DocsApiError} If the API call fails or returns an empty response.
+ */
+export async function loadDocument(
+  documentId: string,
+  options: GetParsedDocumentOptions
+): Promise<docs_v1.Schema$Document> {
+  try {
+    const docs = createDocsClient(options);
+    const response = await runWithSignal(
+      (signal) =>
+        withRetry(
+          // googleapis retries on its own by default; `withRetry` handles retries.
+          () =>
+            docs.documents.get(
+              { documentId },
+              { retry: false, ...(signal && { signal }) }
+            ),
+          options.retry,
+          signal
+        ),
+      options
+    );
+    if (!response.data) {
+      throw new Error("Empty document response from Google Docs API.");
     }
-    cursor.getNextParagraph();
+    return response.data;
+  } catch (e) {
+    // A caller abort rejects with the caller's own reason, like `fetch`.
+    throw options.signal?.aborted
+      ? options.signal.reason
+      : toDocsApiError(e, documentId);
   }
-
-  return result;
 }
 
 /**
@@ -55,27 +83,125 @@ function parseDocument(
  * @template T - The type of the ParseSchema, allowing for type inference of the result.
  * @param documentId - The unique ID of the Google Doc to parse.
  * @param parseSchema - The schema definition used to guide the parsing process.
- * @returns A promise resolving to the parsed document data.
- * @throws Will throw a descriptive error if the API call fails or returns an empty response.
+ * @param options - Optional explicit credentials, Docs client, auth client, fetch implementation, retry, signal, timeout, cache, schema validation, or diagnostics.
+ * @returns A promise resolving to the parsed document data, or a `ParseReport` with diagnostics.
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors (before any API call).
+ * @throws {DocsApiError} If the API call fails or returns an empty response. Subclassed by
+ * status: `DocsAuthError` (credentials, 401), `DocsPermissionError` (403),
+ * `DocsNotFoundError` (404), `DocsRateLimitError` (429), and `DocsTimeoutError` (`timeout` exceeded).
+ * @throws {ParseError} If parsing fails, e.g. `MissingSectionError` for a missing `required` section.
  */
 export async function getParsedDocument<T extends ParseSchema>(
   documentId: string,
-  parseSchema: T
-): Promise<GetParsedType<T>> {
-  try {
-    const docs = createDocsClient();
-    const response = await docs.documents.get({ documentId });
-    if (!response.data) {
-      throw new Error("Empty document response from Google Docs API.");
+  parseSchema: T,
+  options: GetParsedDocumentOptions & { diagnostics: true }
+): Promise<ParseReport<GetParsedType<T>>>;
+export async function getParsedDocument<T extends ParseSchema>(
+  documentId: string,
+  parseSchema: T,
+  options?: GetParsedDocumentOptions
+): Promise<GetParsedType<T>>;
+export async function getParsedDocument<T extends ParseSchema>(
+  documentId: string,
+  parseSchema: T,
+  options: GetParsedDocumentOptions = {}
+): Promise<GetParsedType<T> | ParseReport<GetParsedType<T>>> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  const diagnostics = !!options.diagnostics;
+  const parse = (doc: docs_v1.Schema$Document) => {
+    try {
+      return parseDocument(doc, parseSchema, { diagnostics });
+    } catch (e) {
+      throw toParseError(e, documentId);
     }
+  };
 
-    const parsedDocument = parseDocument(response.data, parseSchema);
-    return parsedDocument as GetParsedType<T>;
-  } catch (e) {
-    throw new Error(
-      `Google Docs API call failed. Check Doc ID and Service Account permissions. Original error: ${
-        e instanceof Error ? e.message : String(e)
-      }`
-    );
+  if (!options.cache) return parse(await loadDocument(documentId, options));
+
+  const cacheOptions = options.cache === true ? {} : options.cache;
+  // The fetch may be shared by concurrent calls, so it does not use this call's
+  // signal or timeout; `getCachedResult` applies them to this call's wait.
+  const { signal, timeout, ...sharedOptions } = options;
+  return getCachedResult(
+    getCacheKey(
+      documentId,
+      parseSchema,
+      cacheOptions.mode ?? "result",
+      { diagnostics },
+      cacheOptions.namespace ?? getCredentialIdentity(options)
+    ),
+    () => loadDocument(documentId, sharedOptions),
+    parse,
+    cacheOptions,
+    options
+  );
+}
+
+/**
+ * Fixes the cache namespace to the identity of the caller's credentials, so calls
+ * that inject a shared client (a new object on every call) still share entries and
+ * in-flight fetches with other calls using the same credentials.
+ *
+ * @param options - The caller's options, before a client is injected.
+ * @returns The options with `cache.namespace` set when caching is enabled.
+ */
+export function withCredentialNamespace<O extends GetParsedDocumentOptions>(
+  options: O
+): O {
+  if (!options.cache) return options;
+  const cacheOptions = options.cache === true ? {} : options.cache;
+  return {
+    ...options,
+    cache: {
+      ...cacheOptions,
+      namespace: cacheOptions.namespace ?? getCredentialIdentity(options),
+    },
+  };
+}
+
+/**
+ * Public API: Fetches and parses several Google Docs with the same schema.
+ *
+ * All documents share one Docs client (and therefore one access token). The schema
+ * is validated once if `validateSchema` is set. Failures are collected per document
+ * instead of rejecting the whole batch.
+ *
+ * @template T - The type of the ParseSchema, allowing for type inference of the results.
+ * @param documentIds - The IDs of the Google Docs to parse.
+ * @param parseSchema - The schema definition used for every document.
+ * @param options - `getParsedDocument` options, `concurrency` (default `5`), and `onProgress`.
+ * @returns One settled result per document, in the order of `documentIds`.
+ * @throws {SchemaValidationError} If `validateSchema` is set and the schema has errors.
+ * @throws {DocsAuthError} If the shared Docs client cannot be created.
+ */
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options: GetParsedDocumentsOptions<ParseReport<GetParsedType<T>>> & {
+    diagnostics: true;
   }
+): Promise<ParsedDocumentResult<ParseReport<GetParsedType<T>>>[]>;
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options?: GetParsedDocumentsOptions<GetParsedType<T>>
+): Promise<ParsedDocumentResult<GetParsedType<T>>[]>;
+export async function getParsedDocuments<T extends ParseSchema>(
+  documentIds: readonly string[],
+  parseSchema: T,
+  options: GetParsedDocumentsOptions = {}
+): Promise<ParsedDocumentResult<unknown>[]> {
+  if (options.validateSchema) assertValidSchema(parseSchema);
+
+  const documentOptions: GetParsedDocumentOptions = {
+    ...withCredentialNamespace(options),
+    docsClient: createDocsClient(options),
+    validateSchema: false,
+  };
+  return mapSettled(
+    documentIds,
+    (documentId) => getParsedDocument(documentId, parseSchema, documentOptions),
+    options
+  );
 }
@@ -0,0 +1,176 @@
+import { DocsAuthError, getErrorStatus, getRetryAfter } from "./errors";
+import { sleep } from "./signal";
+
+/**
+ * Options for retrying failed Google API requests.
+ *
+ * Only transient failures are retried: the statuses in `retryStatuses` and network
+ * errors without a response. Authentication errors without a status are never retried.
+ */
+export interface RetryOptions {
+  /** The total number of attempts, including the first one (default `3`). */
+  maxAttempts?: number;
+  /** The delay before the first retry in milliseconds, doubled on each retry (default `500`). */
+  baseDelay?: number;
+  /** The maximum delay between attempts in milliseconds (default `30000`). */
+  maxDelay?: number;
+  /** The HTTP statuses to retry (default `[408, 429, 500, 502, 503, 504]`). */
+  retryStatuses?: readonly number[];
+  /** Called before waiting for each retry (e.g., for logging). */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Details about a retry, passed to `RetryOptions.onRetry`.
+ */
+export interface RetryInfo {
+  /** The attempt that failed (1 for the first attempt). */
+  attempt: number;
+  /** The delay before the next attempt in milliseconds. */
+  delay: number;
+  /** The HTTP status of the failed attempt, or `null` for network errors. */
+  status: number | null;
+  /** The error thrown by the failed attempt. */
+  error: unknown;
+}
+
+/**
+ * Options shared by the Node.js and Edge clients for retrying document fetches.
+ */
+export interface RetryControlOptions {
+  /**
+   * Retries transient failures (`429`, `5xx`, network errors) with exponential backoff.
+   * `true` uses the default `RetryOptions`. Disabled by default.
+   */
+  retry?: boolean | RetryOptions;
+}
+
+/**
+ * Error codes of network failures worth retrying (Node.js socket errors). Codes of
+ * the `undici` errors behind Node.js `fetch` (`UND_ERR_*`) are retried as well.
+ */
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+/**
+ * Messages of `fetch` network failures in runtimes that do not set a `cause`
+ * (browsers, Cloudflare Workers).
+ */
+const FETCH_FAILURE_MESSAGE =
+  /^(?:fetch failed|failed to fetch|network ?error|load failed|network connection (?:was )?lost)/i;
+
+/**
+ * Checks whether an error is a network failure: a Node.js socket error, or a `fetch`
+ * `TypeError` caused by one. Other `TypeError`s are programming errors and are not
+ * network failures.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return error.cause === undefined
+      ? FETCH_FAILURE_MESSAGE.test(error.message)
+      : isNetworkError(error.cause);
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    typeof code === "string" &&
+    (TRANSIENT_NETWORK_CODES.has(code) || code.startsWith("UND_ERR_"))
+  );
+}
+
+/**
+ * Checks whether a failed request should be retried.
+ *
+ * @param error - The thrown value.
+ * @param status - The HTTP status of the failure, if any.
+ * @param retryStatuses - The statuses to retry.
+ */
+function isTransientError(
+  error: unknown,
+  status: number | null,
+  retryStatuses: readonly number[]
+): boolean {
+  if (status !== null) return retryStatuses.includes(status);
+  if (error instanceof DocsAuthError) return false;
+  return isNetworkError(error);
+}
+
+/**
+ * Computes the delay before the next attempt: full-jitter exponential backoff,
+ * or the server's `Retry-After` when it sends one.
+ *
+ * @param attempt - The attempt that failed (1-based).
+ * @param retryAfter - The `Retry-After` delay in seconds, if any.
+ * @param baseDelay - The delay before the first retry in milliseconds.
+ * @param maxDelay - The maximum delay in milliseconds.
+ * @returns The delay in milliseconds.
+ */
+function getRetryDelay(
+  attempt: number,
+  retryAfter: number | null,
+  baseDelay: number,
+  maxDelay: number
+): number {
+  if (retryAfter !== null) return retryAfter * 1000;
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff and jitter.
+ *
+ * If the server asks to wait longer than `maxDelay` (via `Retry-After`), the error
+ * is thrown immediately instead. Once `signal` aborts, no further attempt is made.
+ *
+ * @template T - The request result.
+ * @param request - The request to run; called once per attempt.
+ * @param options - Retry options, `true` for the defaults, or `false`/`undefined` for a single attempt.
+ * @param signal - An optional signal that cancels pending retries.
+ * @returns The result of the first successful attempt.
+ * @throws The error of the last attempt, or of the first non-transient failure.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: boolean | RetryOptions | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!options) return request();
+
+  const {
+    maxAttempts = 3,
+    baseDelay = 500,
+    maxDelay = 30_000,
+    retryStatuses = [408, 429, 500, 502, 503, 504],
+    onRetry,
+  } = options === true ? {} : options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (
+        signal?.aborted ||
+        attempt >= maxAttempts ||
+        !isTransientError(error, status, retryStatuses)
+      ) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(
+        attempt,
+        getRetryAfter(error),
+        baseDelay,
+        maxDelay
+      );
+      if (delay > maxDelay) throw error;
+
+      onRetry?.({ attempt, delay, status, error });
+      await sleep(delay, signal);
+    }
+  }
+}
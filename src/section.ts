@@ -1,17 +1,19 @@
 import type { docs_v1 } from "googleapis";
 import { ParseSchema, Section, NamedStyleType } from "./types";
-import { hasNamedStyle } from "./utils";
+import { hasNamedStyle, matchesTitleText } from "./utils";
 import { ParagraphCursor } from "./cursor";
 import { parseTreeSection, collectNodeStylesRecursive } from "./tree";
 import { parseListSection } from "./list";
 import { parseTextBlockSection } from "./textBlock";
+import { parseTableSection } from "./table";
 
 /**
  * Identifies if a paragraph corresponds to a section title defined in the schema.
  *
  * Matching Logic:
  * 1. Matches the paragraph's named style (e.g., HEADING_2) with the section's style.
- * 2. Matches the text content (case-insensitive, trimmed).
+ * 2. Matches the text content against `name`, `aliases`, or `match` (case-insensitive,
+ *    trimmed, and normalized per the title's `normalize` option).
  *
  * @param paragraph - The current paragraph being inspected.
  * @param text - The extracted text content of the paragraph.
@@ -23,15 +25,13 @@ export function getSectionTitle(
   text: string,
   parseSchema: ParseSchema
 ): string | null {
-  const normalized = text.trim().toLowerCase();
   const sectionList = parseSchema.sections ?? [];
 
   for (const section of sectionList) {
     const { name, namedStyleType } = section.title;
     if (name && namedStyleType) {
       const styleMatches = hasNamedStyle(paragraph, namedStyleType);
-      const textMatches = normalized === name.trim().toLowerCase();
-      if (styleMatches && textMatches) {
+      if (styleMatches && matchesTitleText(text, section.title)) {
         return name;
       }
     }
@@ -44,7 +44,9 @@ export function getSectionTitle(
  *
  * - **Tree:** Delegates to `parseTreeSection` for hierarchical data.
  * - **List:** Delegates to `parseListSection` for flat lists.
- * - **TextBlock (Default):** Delegates to `parseTextBlockSection` if no content structure is defined.
+ * - **Table:** Delegates to `parseTableSection` for Google Docs tables.
+ * - **TextBlock (Default):** Delegates to `parseTextBlockSection` if no content structure is defined
+ *   or `kind` is `"text"`.
  *
  * @param cursor - The paragraph cursor.
  * @param section - The section definition containing the content schema.
@@ -71,6 +73,10 @@ export function parseSectionContent(
     }
     case "list":
       return parseListSection(cursor, section);
+    case "table":
+      return parseTableSection(cursor, section);
+    case "text":
+      return parseTextBlockSection(cursor, content);
     default:
       return parseTextBlockSection(cursor);
   }
@@ -0,0 +1,94 @@
+import { DocsTimeoutError } from "./errors";
+
+/**
+ * Options shared by the Node.js and Edge clients for cancelling requests.
+ */
+export interface RequestSignalOptions {
+  /**
+   * Aborts the call (token exchange, document request, and retry delays).
+   * The call rejects with `signal.reason`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Time limit for the whole call in milliseconds, including retries.
+   * The call rejects with a `DocsTimeoutError` when it is exceeded.
+   */
+  timeout?: number;
+}
+
+/**
+ * Runs a request with the caller's `signal` and `timeout` combined into one signal.
+ *
+ * The request receives the combined signal to pass to its HTTP calls. The returned
+ * promise also settles as soon as the signal aborts, even if the request ignores it.
+ *
+ * @template T - The request result.
+ * @param request - The request to run, given the combined signal (or `undefined` if neither option is set).
+ * @param options - The caller's signal and timeout.
+ * @returns The result of the request.
+ * @throws The abort reason: `signal.reason`, or a `DocsTimeoutError` for the timeout.
+ */
+export async function runWithSignal<T>(
+  request: (signal: AbortSignal | undefined) => Promise<T>,
+  options: RequestSignalOptions
+): Promise<T> {
+  const { signal, timeout } = options;
+  if (!signal && timeout === undefined) return request(undefined);
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", abort, { once: true });
+  const timer =
+    timeout === undefined
+      ? undefined
+      : setTimeout(
+          () =>
+            controller.abort(
+              new DocsTimeoutError(
+                `Request timed out after ${timeout}ms.`,
+                { timeout }
+              )
+            ),
+          timeout
+        );
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true }
+      );
+      request(controller.signal).then(resolve, reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Waits for a delay, rejecting early with `signal.reason` if the signal aborts.
+ *
+ * @param delay - The delay in milliseconds.
+ * @param signal - An optional signal to cancel the wait.
+ */
+export function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,134 @@
+import { OutputValidationError, SchemaError } from "./errors";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by Zod,
+ * Valibot, ArkType, and other validation libraries.
+ *
+ * Copied from the specification so that no validation library is required.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  /** The Standard Schema properties. */
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  /** The Standard Schema properties interface. */
+  export interface Props<Input = unknown, Output = Input> {
+    /** The version number of the standard. */
+    readonly version: 1;
+    /** The vendor name of the schema library. */
+    readonly vendor: string;
+    /** Validates unknown input values. */
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>;
+    /** Inferred types associated with the schema. */
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  /** The result interface of the validate function. */
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  /** The result interface if validation succeeds. */
+  export interface SuccessResult<Output> {
+    /** The typed output value. */
+    readonly value: Output;
+    /** The non-existent issues. */
+    readonly issues?: undefined;
+  }
+
+  /** The result interface if validation fails. */
+  export interface FailureResult {
+    /** The issues of failed validation. */
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  /** The issue interface of the failure output. */
+  export interface Issue {
+    /** The error message of the issue. */
+    readonly message: string;
+    /** The path of the issue, if any. */
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  /** The path segment interface of the issue. */
+  export interface PathSegment {
+    /** The key representing a path segment. */
+    readonly key: PropertyKey;
+  }
+
+  /** The Standard Schema types interface. */
+  export interface Types<Input = unknown, Output = Input> {
+    /** The input type of the schema. */
+    readonly input: Input;
+    /** The output type of the schema. */
+    readonly output: Output;
+  }
+
+  /** Infers the input type of a Standard Schema. */
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  /** Infers the output type of a Standard Schema. */
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * A position in the parse result: section names, node fields, and array indexes.
+ */
+export type ResultPath = readonly (string | number)[];
+
+/**
+ * Returns whether a value is a Standard Schema validator.
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    "~standard" in value &&
+    typeof (value as StandardSchemaV1)["~standard"]?.validate === "function"
+  );
+}
+
+/**
+ * Checks whether a validation result is asynchronous. Any thenable counts, not only
+ * native promises (e.g., promises from another realm or a promise library).
+ */
+function isThenable<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as { then?: unknown }).then === "function";
+}
+
+/**
+ * Runs a validator on a parsed item and returns its (possibly transformed) output.
+ *
+ * @param validator - The Standard Schema validator.
+ * @param value - The parsed item.
+ * @param context - Where the item is in the result, and the source paragraph text.
+ * @returns The validator's output value.
+ * @throws {OutputValidationError} If the validator reports issues.
+ * @throws {SchemaError} If the validator is asynchronous (parsing is synchronous).
+ */
+export function validateItem(
+  validator: StandardSchemaV1,
+  value: unknown,
+  context: { path: ResultPath; text: string }
+): unknown {
+  const result = validator["~standard"].validate(value);
+  if (isThenable(result)) {
+    throw new SchemaError(
+      `Validator (${validator["~standard"].vendor}) is asynchronous; only synchronous validators are supported.`
+    );
+  }
+  if (result.issues) {
+    throw new OutputValidationError({
+      path: context.path,
+      text: context.text,
+      value,
+      issues: result.issues,
+    });
+  }
+  return result.value;
+}
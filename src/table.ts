@@ -0,0 +1,112 @@
+import type { docs_v1 } from "googleapis";
+import { Section, Table } from "./types";
+import { ParagraphCursor } from "./cursor";
+import { extractParagraphText } from "./utils";
+import { coerceFieldValue, resolveCoercion } from "./coerce";
+
+/**
+ * Extracts the text of every cell in a Google Docs table.
+ *
+ * Each cell may contain multiple paragraphs; their non-empty texts are joined with spaces.
+ *
+ * @param table - The raw table object from the API.
+ * @returns The table as an array of rows, each an array of cell strings.
+ */
+export function extractTableCells(table: docs_v1.Schema$Table): string[][] {
+  return (table.tableRows ?? []).map((row) =>
+    (row.tableCells ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map((element) =>
+          element.paragraph ? extractParagraphText(element.paragraph) : ""
+        )
+        .filter((text) => text.length > 0)
+        .join(" ")
+    )
+  );
+}
+
+/**
+ * Converts the cells of a single table into output rows according to the table schema.
+ *
+ * - **Keys**: If `keys` is set, each row becomes an object mapped by position.
+ * - **Header**: If `header` is true, the first row provides the keys.
+ * - **Rows**: Otherwise, each row is returned as an array of cells.
+ *
+ * @param cells - The table cells (see `extractTableCells`).
+ * @param tableSchema - The table configuration.
+ * @returns An array of parsed rows.
+ * @throws {CoercionError} If a cell value cannot be converted by `tableSchema.coerce`.
+ */
+export function parseTableRows(cells: string[][], tableSchema: Table): unknown[] {
+  const [headerRow = [], ...bodyRows] = cells;
+  const rows = tableSchema.header ? bodyRows : cells;
+  const keys =
+    tableSchema.keys && tableSchema.keys.length > 0
+      ? tableSchema.keys
+      : tableSchema.header
+      ? headerRow
+      : undefined;
+
+  return rows.map((row) => {
+    const text = row.join(" | ");
+
+    if (!keys) {
+      return row.map((value, index) =>
+        coerceFieldValue(value, resolveCoercion(tableSchema), {
+          field: `[${index}]`,
+          text,
+        })
+      );
+    }
+
+    return keys.reduce((acc, key, index) => {
+      acc[key] = coerceFieldValue(
+        row[index] ?? "",
+        resolveCoercion(tableSchema, key),
+        { field: key, text }
+      );
+      return acc;
+    }, {} as Record<string, unknown>);
+  });
+}
+
+/**
+ * Parses a section defined as a 'Table'.
+ *
+ * Collects the rows of every table that follows the section heading, skipping
+ * paragraphs in between (e.g., captions), until a boundary is encountered.
+ *
+ * **Stop Conditions:**
+ * 1. **New Section:** The cursor reaches a paragraph that marks the start of a new section defined in the schema.
+ * 2. **Heading:** The cursor reaches any paragraph with a named heading style.
+ *
+ * @param cursor - The cursor traversing the document elements.
+ * @param section - The section definition containing the table schema.
+ * @returns An array of parsed rows.
+ */
+export function parseTableSection(
+  cursor: ParagraphCursor,
+  section: Section
+): unknown[] {
+  const result: unknown[] = [];
+  if (!section.content || section.content.kind !== "table") {
+    return [];
+  }
+  const tableSchema = section.content;
+
+  while (!cursor.isEndOfDocument()) {
+    const table = cursor.getCurrentTable();
+    if (table) {
+      result.push(...parseTableRows(extractTableCells(table), tableSchema));
+      cursor.getNextParagraph();
+      continue;
+    }
+
+    if (cursor.isAtNewSection()) break;
+    if (cursor.isAtParagraphHeading()) break;
+
+    cursor.reportOrphanParagraph();
+    cursor.getNextParagraph();
+  }
+  return result;
+}
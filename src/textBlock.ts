@@ -1,4 +1,8 @@
+import { RichText, TextBlock } from "./types";
 import { ParagraphCursor } from "./cursor";
+import { extractParagraphText, extractRichText } from "./utils";
+import { parseMarkdownSection } from "./markdown";
+import { parseHtmlSection } from "./html";
 
 /**
  * Parses a continuous block of text paragraphs into a single string.
@@ -10,15 +14,41 @@ import { ParagraphCursor } from "./cursor";
  * 1. **New Section:** The cursor reaches a paragraph that marks the start of a new section defined in the schema.
  * 2. **Heading:** The cursor reaches any paragraph with a named heading style (e.g., HEADING_1, HEADING_2).
  *
+ * **Output Options:**
+ * - `richText`: Paragraphs are returned as `RichText` spans joined by a separator span.
+ * - `paragraphs`: One item per paragraph is returned instead of a joined value.
+ * - `separator`: The string used to join paragraphs (defaults to a space).
+ * - `lineBreaks`: Soft line breaks (`\u000b`) are returned as `\n`.
+ * - `format`: With `"markdown"` or `"html"`, it delegates to `parseMarkdownSection`
+ *   or `parseHtmlSection` instead.
+ *
  * @param cursor - The cursor traversing the document paragraphs.
- * @returns The combined text content of the block, joined by spaces.
+ * @param textBlock - Optional text block configuration (`kind: "text"`).
+ * @returns The combined text content of the block, or one item per paragraph.
  */
-export function parseTextBlockSection(cursor: ParagraphCursor): string {
+export function parseTextBlockSection(
+  cursor: ParagraphCursor,
+  textBlock?: TextBlock
+): string | string[] | RichText | RichText[] {
+  if (textBlock?.format === "markdown") {
+    return parseMarkdownSection(cursor);
+  }
+  if (textBlock?.format === "html") {
+    return parseHtmlSection(
+      cursor,
+      textBlock.classNames ? { classNames: textBlock.classNames } : {}
+    );
+  }
+
   const textPartList: string[] = [];
+  const richTextList: RichText[] = [];
+  const separator = textBlock?.separator ?? " ";
+  const lineBreaks = !!textBlock?.lineBreaks;
 
   while (!cursor.isEndOfDocument()) {
     const paragraph = cursor.getCurrentParagraph();
     if (!paragraph) {
+      cursor.reportIgnoredElement();
       cursor.getNextParagraph();
       continue;
     }
@@ -26,8 +56,32 @@ export function parseTextBlockSection(cursor: ParagraphCursor): string {
     if (cursor.isAtNewSection()) break;
     if (cursor.isAtParagraphHeading()) break;
 
-    textPartList.push(paragraph.text);
+    if (textBlock?.richText) {
+      const spans = extractRichText(paragraph.paragraph);
+      richTextList.push(
+        lineBreaks
+          ? spans.map((span) => ({
+              ...span,
+              text: span.text.replace(/\u000b/g, "\n"),
+            }))
+          : spans
+      );
+    } else {
+      textPartList.push(
+        lineBreaks
+          ? extractParagraphText(paragraph.paragraph, true)
+          : paragraph.text
+      );
+    }
     cursor.getNextParagraph();
   }
-  return textPartList.join(" ");
+
+  if (textBlock?.richText) {
+    if (textBlock.paragraphs) return richTextList;
+    return richTextList.flatMap((spans, index) =>
+      index === 0 ? spans : [{ text: separator }, ...spans]
+    );
+  }
+  if (textBlock?.paragraphs) return textPartList;
+  return textPartList.join(separator);
 }
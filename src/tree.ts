@@ -1,7 +1,10 @@
 import type { docs_v1 } from "googleapis";
-import { NamedStyleType, Node, Section, Schema } from "./types";
+import { NamedStyleType, Node, Section, Schema, Title } from "./types";
 import { ParagraphCursor } from "./cursor";
-import { hasNamedStyle, parseStructuredText } from "./utils";
+import { hasDelimiterSchema, hasNamedStyle, parseStructuredText } from "./utils";
+import { appendListItems } from "./list";
+import { validateItem, ResultPath } from "./standardSchema";
+import { MissingNodeError } from "./errors";
 
 const CONTENT_KEY = "content";
 
@@ -30,21 +33,37 @@ export function collectNodeStylesRecursive(
  * - If the schema defines parsing rules (delimiters/keys), the title is parsed into
  * structured data (Array or Object).
  * - If no parsing rules exist, the title is treated as a simple string.
+ * - If the schema has a `validate` option, the parsed title is replaced by its output.
  *
  * @param text - The raw text of the title/heading.
  * @param titleSchema - The schema defining how to parse the title.
+ * @param path - The position of the node in the parse result, for validation errors.
  * @returns An object containing the parsed `title` and an empty `content` array.
+ * @throws {OutputValidationError} If the title is rejected by `titleSchema.validate`.
  */
 export function createNodeFromTitle(
   text: string,
-  titleSchema: Schema
+  titleSchema: Title,
+  path: ResultPath = []
 ): Record<"title" | "content", unknown> {
-  const hasDelimiterSchema =
-    !!titleSchema.keyDelimiter ||
-    (!!titleSchema.keys && titleSchema.keys.length > 0) ||
-    !!titleSchema.delimiter;
+  const node = parseNodeTitle(text, titleSchema);
+  if (titleSchema.validate) {
+    node.title = validateItem(titleSchema.validate, node.title, {
+      path: [...path, "title"],
+      text,
+    });
+  }
+  return node;
+}
 
-  if (hasDelimiterSchema) {
+/**
+ * Parses a node title according to its delimiter options.
+ */
+function parseNodeTitle(
+  text: string,
+  titleSchema: Schema
+): Record<"title" | "content", unknown> {
+  if (hasDelimiterSchema(titleSchema)) {
     const structuredText = parseStructuredText(text, titleSchema);
     if (Array.isArray(structuredText)) {
       return { title: structuredText, content: [] };
@@ -145,6 +164,7 @@ export function parseTreeSection(
   while (!cursor.isEndOfDocument()) {
     const info = cursor.getCurrentParagraph();
     if (!info) {
+      cursor.reportIgnoredElement();
       cursor.getNextParagraph();
       continue;
     }
@@ -155,12 +175,58 @@ export function parseTreeSection(
     if (cursor.isAtParagraphHeading() && style && !allNodeTitleStyles.has(style)) break;
 
     if (hasNamedStyle(paragraph, nodeSchema.title.namedStyleType)) {
-      return parseTreeNode(cursor, nodeSchema, [], allNodeTitleStyles);
+      return applyNodeDefaults(
+        parseTreeNode(cursor, nodeSchema, [], allNodeTitleStyles, [
+          section.title.name ?? "",
+        ]),
+        nodeSchema
+      );
     }
 
+    cursor.reportOrphanParagraph();
     cursor.getNextParagraph();
   }
-  return [];
+  return applyNodeDefaults([], nodeSchema);
+}
+
+/**
+ * Applies `required` and `default` of a node schema to a parsed tree level, recursively.
+ *
+ * A level is missing when no nodes were parsed for it: in the section for the root node,
+ * or under a parent node for child nodes.
+ *
+ * @param nodes - The parsed nodes of this level (child arrays are mutated).
+ * @param nodeSchema - The schema for this level.
+ * @param parentTitle - The parsed title of the parent node, or `null` for the root level.
+ * @returns The parsed nodes, or the node default if none were parsed.
+ * @throws {MissingNodeError} If the level is missing and the node is `required`.
+ */
+export function applyNodeDefaults(
+  nodes: unknown[],
+  nodeSchema: Node,
+  parentTitle: unknown = null
+): unknown[] {
+  if (nodes.length === 0) {
+    if (nodeSchema.required) {
+      throw new MissingNodeError(nodeSchema.title.namedStyleType, parentTitle);
+    }
+    return nodeSchema.default ? [...nodeSchema.default] : nodes;
+  }
+
+  const childNodeSchema =
+    nodeSchema.content?.kind === "tree" ? nodeSchema.content.node : undefined;
+  if (!childNodeSchema) return nodes;
+
+  for (const node of nodes as Array<Record<string, unknown>>) {
+    const children = node[CONTENT_KEY];
+    if (!Array.isArray(children)) continue;
+    node[CONTENT_KEY] = applyNodeDefaults(
+      children,
+      childNodeSchema,
+      node.title
+    );
+  }
+  return nodes;
 }
 
 /**
@@ -173,13 +239,15 @@ export function parseTreeSection(
  * @param nodeSchema - The schema for the current node level.
  * @param ancestorNodeList - Stack of ancestors to detect hierarchy boundaries.
  * @param allNodeTitleStyles - Set of all valid styles for boundary checks.
+ * @param path - The position of this level in the parse result, for validation errors.
  * @returns An array of parsed nodes for this level.
  */
 export function parseTreeNode(
   cursor: ParagraphCursor,
   nodeSchema: Node,
   ancestorNodeList: Node[],
-  allNodeTitleStyles: Set<NamedStyleType>
+  allNodeTitleStyles: Set<NamedStyleType>,
+  path: ResultPath = []
 ): unknown[] {
   const result: unknown[] = [];
   let currentNode: Record<string, unknown> | null = null;
@@ -190,6 +258,7 @@ export function parseTreeNode(
   while (!cursor.isEndOfDocument()) {
     const info = cursor.getCurrentParagraph();
     if (!info) {
+      cursor.reportIgnoredElement();
       cursor.getNextParagraph();
       continue;
     }
@@ -217,7 +286,10 @@ export function parseTreeNode(
       }
 
       case "createNode": {
-        currentNode = createNodeFromTitle(text, nodeSchema.title);
+        currentNode = createNodeFromTitle(text, nodeSchema.title, [
+          ...path,
+          result.length,
+        ]);
         result.push(currentNode);
         cursor.getNextParagraph();
         break;
@@ -229,6 +301,7 @@ export function parseTreeNode(
           !Array.isArray(currentNode[CONTENT_KEY]) ||
           !childNodeSchema
         ) {
+          cursor.reportOrphanParagraph();
           cursor.getNextParagraph();
           break;
         }
@@ -236,7 +309,8 @@ export function parseTreeNode(
           cursor,
           childNodeSchema,
           [nodeSchema, ...ancestorNodeList],
-          allNodeTitleStyles
+          allNodeTitleStyles,
+          [...path, result.length - 1, CONTENT_KEY]
         );
         (currentNode[CONTENT_KEY] as unknown[]).push(...children);
         break;
@@ -244,19 +318,33 @@ export function parseTreeNode(
 
       case "finishCurrentNode": {
         if (currentNode) return result;
+        cursor.reportOrphanParagraph();
         cursor.getNextParagraph();
         break;
       }
 
       case "appendDetail": {
-        if (nodeSchema.content?.kind === "tree") {
+        if (
+          nodeSchema.content?.kind === "tree" ||
+          !currentNode ||
+          !Array.isArray(currentNode[CONTENT_KEY])
+        ) {
+          cursor.reportOrphanParagraph();
           cursor.getNextParagraph();
           break;
         }
-        if (currentNode && Array.isArray(currentNode[CONTENT_KEY])) {
-          (currentNode[CONTENT_KEY] as unknown[]).push(text.trim());
+        const content = currentNode[CONTENT_KEY] as unknown[];
+        if (nodeSchema.content?.kind === "list") {
+          // Parses the detail lines up to the next heading like a list section.
+          appendListItems(content, cursor, nodeSchema.content, [
+            ...path,
+            result.length - 1,
+            CONTENT_KEY,
+          ]);
+        } else {
+          content.push(text.trim());
+          cursor.getNextParagraph();
         }
-        cursor.getNextParagraph();
         break;
       }
     }
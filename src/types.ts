@@ -1,3 +1,5 @@
+import type { StandardSchemaV1 } from "./standardSchema";
+
 // ----------------------------------------------------------------------
 // 1. Style & Base Configuration Structures
 // ----------------------------------------------------------------------
@@ -21,6 +23,46 @@ export type NamedStyleType =
   | "HEADING_6"
   | string; // Allow other custom styles for extensibility
 
+/**
+ * Built-in coercions for converting parsed string values into typed values.
+ *
+ * - `"string"`: Leaves the value unchanged.
+ * - `"number"` / `"integer"`: Parses a finite number (integers only for `"integer"`).
+ * - `"boolean"`: Accepts `true/false`, `yes/no`, `y/n`, `on/off`, `1/0` (case-insensitive).
+ * - `"date"`: Parses an ISO 8601 date (e.g., `2024-05-01`) into a `Date`.
+ * - `"url"`: Validates an absolute URL and returns its normalized `href`.
+ */
+export type CoercionType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "date"
+  | "url";
+
+/**
+ * Restricts a value to a fixed set of allowed strings (exact match).
+ */
+export interface EnumCoercion {
+  enum: readonly string[];
+}
+
+/**
+ * A custom coercion. Receives the raw string value and returns the converted value.
+ * Throwing from this function is reported as a coercion failure.
+ */
+export type CoercionFunction = (value: string) => unknown;
+
+/**
+ * Any supported value coercion.
+ */
+export type Coercion = CoercionType | EnumCoercion | CoercionFunction;
+
+/**
+ * Coercions mapped by field name (a name in `keys`, or a key parsed via `keyDelimiter`).
+ */
+export type FieldCoercionMap = { readonly [field: string]: Coercion };
+
 /**
  * Base configuration interface for parsing text content.
  * Defines how raw text strings are split, filtered, and mapped to data fields.
@@ -48,6 +90,36 @@ export interface Schema {
    * If true, indicates that the result should be flattened in specific contexts.
    */
   isFlatten?: boolean;
+
+  /**
+   * Converts parsed string values into typed values.
+   *
+   * - A single `Coercion` applies to every value (list items, keyed-list values, or all `keys` fields).
+   * - A `FieldCoercionMap` applies per field name; unmapped fields stay strings.
+   *
+   * Empty `keys` fields become `null` for built-in coercions other than `"string"`.
+   */
+  coerce?: Coercion | FieldCoercionMap;
+}
+
+/**
+ * Normalization applied to section heading text and to `name` / `aliases` before
+ * they are compared. Comparison is always trimmed and case-insensitive.
+ */
+export interface TitleNormalizeOptions {
+  /** Applies Unicode NFKC normalization (e.g., full-width `Ｓｋｉｌｌｓ` becomes `Skills`). */
+  nfkc?: boolean;
+  /** Removes emoji (e.g., `"Experience 💼"` matches `"Experience"`). */
+  stripEmoji?: boolean;
+  /** Replaces punctuation and symbols with spaces (e.g., `"Skills:"` matches `"Skills"`). */
+  stripPunctuation?: boolean;
+  /** Collapses runs of whitespace into a single space. */
+  collapseWhitespace?: boolean;
+  /**
+   * The locale used for case folding (e.g., `"tr"` so that `"İ"` folds to `"i"`).
+   * Defaults to locale-independent lowercasing.
+   */
+  locale?: string;
 }
 
 /**
@@ -65,6 +137,31 @@ export interface Title extends Schema {
    * The specific Google Docs style type that identifies this title (e.g., "HEADING_1").
    */
   namedStyleType: NamedStyleType;
+
+  /**
+   * Other heading texts that identify this section (e.g., `["Work Experience"]`).
+   * They are matched like `name`, which stays the output key. Section titles only.
+   */
+  aliases?: readonly string[];
+
+  /**
+   * A pattern tested against the trimmed heading text, as an alternative to
+   * `name` and `aliases` (e.g., `/^(work )?experience\b/i`). Section titles only.
+   */
+  match?: RegExp;
+
+  /**
+   * Normalizes heading text before comparing it with `name` and `aliases`.
+   * `true` enables every option except `locale`. Section titles only.
+   */
+  normalize?: boolean | TitleNormalizeOptions;
+
+  /**
+   * A Standard Schema validator (Zod, Valibot, ArkType, ...) run on the parsed title
+   * of each tree node. Its output replaces the title and sets its inferred type.
+   * Failures throw an `OutputValidationError`. Section titles are not validated.
+   */
+  validate?: StandardSchemaV1;
 }
 
 // ----------------------------------------------------------------------
@@ -77,6 +174,29 @@ export interface Title extends Schema {
  */
 export interface List extends Schema {
   kind: "list";
+
+  /**
+   * If true, builds nested `{ text, children }` items from bullet nesting levels.
+   * Consecutive paragraphs are grouped into separate lists by `bullet.listId`,
+   * and non-bulleted paragraphs form their own groups.
+   * Delimiter, key, and coercion options do not apply in this mode.
+   */
+  nested?: boolean;
+
+  /**
+   * If true, each paragraph becomes a `RichText` item (inline styles and links preserved).
+   * Also applies to the detail lines of tree nodes using this list as content.
+   * Delimiter, key, and coercion options do not apply in this mode.
+   */
+  richText?: boolean;
+
+  /**
+   * A Standard Schema validator (Zod, Valibot, ArkType, ...) run on each list item
+   * (or tree node detail line) after parsing and coercion. Its output replaces the
+   * item and sets its inferred type. Failures throw an `OutputValidationError`.
+   * Not applied with `nested`.
+   */
+  validate?: StandardSchemaV1;
 }
 
 /**
@@ -91,12 +211,115 @@ export interface Tree {
   node: Node;
 }
 
+/**
+ * Configuration for parsing Google Docs tables under a heading.
+ * Rows of every table up to the next heading are collected in document order.
+ */
+export interface Table {
+  kind: "table";
+
+  /**
+   * If true, the first row of each table is used as the keys for its remaining rows.
+   */
+  header?: boolean;
+
+  /**
+   * Explicit column keys, mapped by position. Takes precedence over header keys;
+   * when combined with `header`, the header row is skipped.
+   */
+  keys?: readonly string[];
+
+  /**
+   * Converts cell values into typed values, either for every cell or per column key.
+   * Empty cells become `null` for built-in coercions other than `"string"`.
+   */
+  coerce?: Coercion | FieldCoercionMap;
+}
+
+/**
+ * Configuration for parsing the paragraphs under a heading as a text block.
+ * Equivalent to omitting `content`, but allows output options.
+ */
+export interface TextBlock {
+  kind: "text";
+
+  /**
+   * If true, returns `RichText` spans with inline styles and links instead of a plain string.
+   */
+  richText?: boolean;
+
+  /**
+   * If true, returns one item per paragraph (`string[]`, or `RichText[]` with `richText`)
+   * instead of joining them. `separator` is ignored in this mode.
+   */
+  paragraphs?: boolean;
+
+  /**
+   * The string placed between paragraphs when joining them (e.g., `"\n\n"`).
+   * Defaults to `" "`.
+   */
+  separator?: string;
+
+  /**
+   * If true, soft line breaks within a paragraph (`\u000b`, Shift+Enter in Google Docs)
+   * are returned as `\n`.
+   */
+  lineBreaks?: boolean;
+
+  /**
+   * Output format of the block. `"markdown"` returns CommonMark/GFM and `"html"`
+   * returns escaped semantic HTML, both with paragraph breaks, nested and numbered
+   * lists, emphasis, links, and tables preserved.
+   * Takes precedence over the other options. Defaults to `"text"`.
+   */
+  format?: "text" | "markdown" | "html";
+
+  /**
+   * Class names added to the rendered elements when `format` is `"html"`.
+   */
+  classNames?: HtmlClassNames;
+}
+
+/**
+ * HTML elements produced by the HTML renderer.
+ */
+export type HtmlElementName =
+  | "p"
+  | "h1"
+  | "h2"
+  | "h3"
+  | "h4"
+  | "h5"
+  | "h6"
+  | "ul"
+  | "ol"
+  | "li"
+  | "a"
+  | "strong"
+  | "em"
+  | "u"
+  | "s"
+  | "code"
+  | "table"
+  | "tr"
+  | "td";
+
+/**
+ * Class names to add to rendered HTML elements, keyed by element name.
+ */
+export type HtmlClassNames = Partial<Record<HtmlElementName, string>>;
+
 /**
  * Union type representing the possible content structures:
  * either a flat `List` or a hierarchical `Tree`.
  */
 export type Content = List | Tree;
 
+/**
+ * Union type representing the content structures available to top-level sections.
+ */
+export type SectionContent = Content | Table | TextBlock;
+
 /**
  * Represents a single node in the document hierarchy.
  * Consists of a title (the heading) and optional content (children or list).
@@ -106,6 +329,15 @@ export interface Node {
   title: Title;
   /** Configuration for the node's body content (optional). */
   content?: Content;
+  /**
+   * If true, at least one node of this level must be found (in the section for
+   * the root node, or under each parent node); otherwise a `MissingNodeError` is thrown.
+   */
+  required?: boolean;
+  /**
+   * The nodes used when none of this level are found. Ignored if `required` is true.
+   */
+  default?: readonly unknown[];
 }
 
 /**
@@ -114,7 +346,17 @@ export interface Node {
  */
 export interface Section {
   title: Title;
-  content?: Content;
+  content?: SectionContent;
+  /**
+   * If true, a `MissingSectionError` is thrown when the section is not found,
+   * and the section is typed as always present. With `diagnostics: true`, it is
+   * reported as a `missing-section` diagnostic instead.
+   */
+  required?: boolean;
+  /**
+   * The value used when the section is not found. Ignored if `required` is true.
+   */
+  default?: unknown;
 }
 
 /**
@@ -135,47 +377,188 @@ export type ParsedDocument = Record<string, unknown>;
 // 3. 🌟 Type Inference System (GetParsedType)
 // ----------------------------------------------------------------------
 
+/**
+ * Helper Type: Infers the value type produced by a single `Coercion`.
+ */
+type CoercedValue<C> = C extends "number" | "integer"
+  ? number
+  : C extends "boolean"
+  ? boolean
+  : C extends "date"
+  ? Date
+  : C extends "string" | "url"
+  ? string
+  : C extends { enum: readonly (infer E)[] }
+  ? E
+  : C extends (value: string) => infer R
+  ? R
+  : string;
+
+/**
+ * Helper Type: Resolves the coercion configured for a field name, if any.
+ */
+type FieldCoercion<T, F extends string> = T extends {
+  coerce: infer C;
+}
+  ? C extends Coercion
+    ? C
+    : F extends keyof C
+    ? C[F]
+    : undefined
+  : undefined;
+
+/**
+ * Helper Type: Infers a `keys` field type. Empty fields coerced by a built-in
+ * coercion (other than `"string"`) become `null`.
+ */
+type FieldValue<C> = C extends undefined | "string"
+  ? string
+  : C extends CoercionFunction
+  ? CoercedValue<C>
+  : CoercedValue<C> | null;
+
+/**
+ * Helper Type: Infers the type of each delimited or keyed-list value.
+ */
+type ListValue<T extends Schema> = T extends { coerce: infer C }
+  ? C extends Coercion
+    ? CoercedValue<C>
+    : string | CoercedValue<C[keyof C]>
+  : string;
+
 /**
  * Helper Type: Infers the object shape for a single text item based on `keys`.
  *
- * - If `keys` are present (e.g., `["role", "name"]`), infers `{ role: string; name: string }`.
+ * - If `keys` are present (e.g., `["role", "name"]`), infers `{ role: string; name: string }`,
+ *   with field types adjusted by `coerce`.
  * - Otherwise, infers `string`.
  */
 type ItemField<T extends Schema> = T extends {
   keys: readonly (infer K)[];
 }
-  ? { [P in K & string]: string }
+  ? { [P in K & string]: FieldValue<FieldCoercion<T, P>> }
   : string;
 
 /**
  * Helper Type: Represents a keyed list item (parsed from "Key: Value" format).
  */
-type KeyedListItem = { key: string; value: string[] };
+type KeyedListItem<V = string> = { key: string; value: V[] };
+
+/**
+ * A run of text sharing the same inline style.
+ * Style flags are only present when set.
+ */
+export interface TextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  /** Set when the run uses a monospace font (e.g., Courier New, Roboto Mono). */
+  code?: boolean;
+  /** The URL of the link applied to this run. */
+  link?: string;
+}
+
+/**
+ * Styled text, represented as a sequence of spans.
+ */
+export type RichText = TextSpan[];
+
+/**
+ * A list item with its nested sub-items, built from bullet nesting levels.
+ * `T` is `RichText` when `richText` is enabled.
+ */
+export type NestedListItem<T = string> = {
+  text: T;
+  children: NestedListItem<T>[];
+};
+
+/**
+ * A group of consecutive list items sharing the same bullet list.
+ *
+ * - `bulleted`: Whether the items are bullet points or plain paragraphs.
+ * - `listId`: The Google Docs list ID, or `null` for plain paragraphs.
+ */
+export type NestedList<T = string> = {
+  listId: string | null;
+  bulleted: boolean;
+  items: NestedListItem<T>[];
+};
 
 /**
  * Helper Type: Infers the result type for a `List` content.
  *
+ * - If `nested` is true, returns an array of `NestedList` groups.
+ * - If `validate` is set, returns an array of the validator's output type.
+ * - If `richText` is true, returns an array of `RichText` items.
  * - If `keys` is defined, returns an array of mapped objects.
  * - If `keyDelimiter` is defined, returns an array of `{ key, value }` objects.
- * - Otherwise, returns an array of strings.
+ * - If `isFlatten` is true, returns a flat array of (coerced) values.
+ * - Otherwise, returns an array of (coerced) values per line.
  */
-type ContentListType<C extends List> = C extends { keys: readonly any[] }
+type ContentListType<C extends List> = C extends { nested: true }
+  ? NestedList<C extends { richText: true } ? RichText : string>[]
+  : C extends { validate: infer V extends StandardSchemaV1 }
+  ? Array<StandardSchemaV1.InferOutput<V>>
+  : C extends { richText: true }
+  ? RichText[]
+  : C extends { keys: readonly any[] }
   ? Array<ItemField<C>>
   : C extends { keyDelimiter: string }
-  ? Array<KeyedListItem>
-  : string[];
+  ? Array<KeyedListItem<ListValue<C>>>
+  : C extends { isFlatten: true }
+  ? Array<ListValue<C>>
+  : Array<Array<ListValue<C>>>;
+
+/**
+ * Helper Type: Infers the type of a single table cell based on `coerce`.
+ */
+type TableCellValue<C extends Table> = C extends { coerce: infer T }
+  ? T extends Coercion
+    ? FieldValue<T>
+    : string | FieldValue<T[keyof T]>
+  : string;
+
+/**
+ * Helper Type: Infers the result type for a `Table` content.
+ *
+ * - If `keys` is defined, returns an array of objects keyed by those column names.
+ * - If `header` is true, returns an array of records keyed by the header cells.
+ * - Otherwise, returns an array of rows (arrays of cells).
+ */
+type ContentTableType<C extends Table> = C extends {
+  keys: readonly (infer K)[];
+}
+  ? Array<{ [P in K & string]: FieldValue<FieldCoercion<C, P>> }>
+  : C extends { header: true }
+  ? Array<Record<string, TableCellValue<C>>>
+  : Array<Array<TableCellValue<C>>>;
+
+/**
+ * Helper Type: Infers the nodes of one tree level, applying the node's `default`.
+ *
+ * - `required: true` → the parsed nodes.
+ * - `default` → the parsed nodes, or the default nodes when none are found.
+ */
+type NodeListValue<N extends Node> = N extends { required: true }
+  ? Array<StructuredItem<N>>
+  : N extends { default: infer D extends readonly unknown[] }
+  ? Array<StructuredItem<N>> | Array<D[number]>
+  : Array<StructuredItem<N>>;
 
 /**
  * Helper Type: Recursively infers the type of a Node's content.
  *
- * - If `kind: "tree"`, returns an array of `StructuredItem<N>` (recursive).
- * - If `kind: "list"`, returns a list type via `ContentListType`.
+ * - If `kind: "tree"`, returns the child nodes via `NodeListValue` (recursive).
+ * - If `kind: "list"`, returns a list type via `ContentListType` (detail lines are
+ *   parsed like a list section).
  */
 type NodeContentItems<C extends Content | undefined> = C extends {
   kind: "tree";
   node: infer N extends Node;
 }
-  ? Array<StructuredItem<N>>
+  ? NodeListValue<N>
   : C extends { kind: "list" }
   ? ContentListType<C>
   : unknown;
@@ -184,16 +567,54 @@ type NodeContentItems<C extends Content | undefined> = C extends {
  * Helper Type: Represents the fully resolved type of a single Node.
  *
  * Structure:
- * - `title`: The parsed title (string, object with keys, or keyed list).
+ * - `title`: The parsed title (string, object with keys, or keyed list), or the
+ *   output of the title's `validate`.
  * - `content`: The parsed body content (children nodes or list items).
  *
  * This matches the runtime structure: `{ title: ..., content: [...] }`.
  */
 export type StructuredItem<N extends Node> = {
-  title: ItemField<N["title"]>;
+  title: N["title"] extends { validate: infer V extends StandardSchemaV1 }
+    ? StandardSchemaV1.InferOutput<V>
+    : ItemField<N["title"]>;
   content: NodeContentItems<N["content"]>;
 };
 
+/**
+ * Helper Type: Applies a section's presence options to its content type.
+ *
+ * - `required: true` → always present.
+ * - `default` → present, as the content type or the default's type.
+ * - Otherwise → possibly `undefined`, since sections missing from the document are omitted.
+ */
+type SectionValue<S extends Section, V> = S extends { required: true }
+  ? V
+  : S extends { default: infer D }
+  ? V | D
+  : V | undefined;
+
+/**
+ * Helper Type: Infers the parsed content type of a section from its `content` schema.
+ */
+type SectionContentType<S extends Section> = S["content"] extends {
+  kind: "tree";
+  node: infer N extends Node;
+}
+  ? NodeListValue<N>
+  : S["content"] extends { kind: "list" }
+  ? ContentListType<S["content"]>
+  : S["content"] extends { kind: "table" }
+  ? ContentTableType<S["content"]>
+  : S["content"] extends { kind: "text"; format: "markdown" | "html" }
+  ? string
+  : S["content"] extends { kind: "text"; paragraphs: true }
+  ? S["content"] extends { richText: true }
+    ? RichText[]
+    : string[]
+  : S["content"] extends { kind: "text"; richText: true }
+  ? RichText
+  : string; // Text block (content undefined or kind "text") → string
+
 /**
  * **Main Type Inference Utility**
  *
@@ -201,15 +622,14 @@ export type StructuredItem<N extends Node> = {
  *
  * - Iterates over all sections in `ParseSchema`.
  * - Maps the section's `name` to its corresponding inferred content type.
- * - Supports both Tree (recursive) and List structures.
+ * - Sections without `required` or `default` may be `undefined` (see `SectionValue`).
+ * - Supports Tree (recursive), List, and Table structures.
  *
  * @template T - The ParseSchema type (must be defined `as const` to infer literal keys).
  */
 export type GetParsedType<T extends ParseSchema> = {
-  [S in T["sections"][number] as S["title"]["name"] &
-    string]: S["content"] extends { kind: "tree"; node: infer N extends Node }
-    ? Array<StructuredItem<N>>
-    : S["content"] extends { kind: "list" }
-    ? ContentListType<S["content"]>
-    : string; // Text block (content undefined) → always string
+  [S in T["sections"][number] as S["title"]["name"] & string]: SectionValue<
+    S,
+    SectionContentType<S>
+  >;
 };
@@ -1,6 +1,18 @@
 import type { docs_v1 } from "googleapis";
-import { Schema, NamedStyleType } from "./types";
-import { VALID_NAMED_STYLES_SET } from "./constants";
+import {
+  Schema,
+  NamedStyleType,
+  RichText,
+  TextSpan,
+  Title,
+  TitleNormalizeOptions,
+} from "./types";
+import {
+  VALID_NAMED_STYLES_SET,
+  MONOSPACE_FONT_PATTERN,
+  EMOJI_PATTERN,
+} from "./constants";
+import { coerceFieldValue, coerceValue, resolveCoercion } from "./coerce";
 
 /**
  * Extracts pure text content from a Google Docs Paragraph.
@@ -8,12 +20,15 @@ import { VALID_NAMED_STYLES_SET } from "./constants";
  * - Joins content from all `textRun` elements.
  * - Trims leading and trailing whitespace.
  * - Normalizes newline characters (`\n`) to spaces.
+ * - Optionally converts soft line breaks (`\u000b`, Shift+Enter in Google Docs) to `\n`.
  *
  * @param paragraph - The Google Docs paragraph object.
+ * @param preserveLineBreaks - If `true`, soft line breaks become `\n`. Defaults to `false`.
  * @returns The extracted and cleaned text string. Returns an empty string if the paragraph is empty.
  */
 export function extractParagraphText(
-  paragraph: docs_v1.Schema$Paragraph
+  paragraph: docs_v1.Schema$Paragraph,
+  preserveLineBreaks = false
 ): string {
   const elements = paragraph.elements ?? [];
 
@@ -23,9 +38,87 @@ export function extractParagraphText(
     .trim()
     .replace(/\n/g, " ");
 
+  if (preserveLineBreaks) {
+    return text.replace(/\u000b/g, "\n");
+  }
   return text || "";
 }
 
+/**
+ * Converts a text run's style into `TextSpan` flags, omitting unset styles.
+ */
+function getSpanStyle(
+  textStyle: docs_v1.Schema$TextStyle | undefined
+): Omit<TextSpan, "text"> {
+  const style: Omit<TextSpan, "text"> = {};
+  if (!textStyle) return style;
+  if (textStyle.bold) style.bold = true;
+  if (textStyle.italic) style.italic = true;
+  if (textStyle.underline) style.underline = true;
+  if (textStyle.strikethrough) style.strikethrough = true;
+  const fontFamily = textStyle.weightedFontFamily?.fontFamily;
+  if (fontFamily && MONOSPACE_FONT_PATTERN.test(fontFamily)) style.code = true;
+  if (textStyle.link?.url) style.link = textStyle.link.url;
+  return style;
+}
+
+/**
+ * Checks whether two spans share exactly the same style.
+ */
+function hasSameStyle(a: TextSpan, b: TextSpan): boolean {
+  return (
+    a.bold === b.bold &&
+    a.italic === b.italic &&
+    a.underline === b.underline &&
+    a.strikethrough === b.strikethrough &&
+    a.code === b.code &&
+    a.link === b.link
+  );
+}
+
+/**
+ * Extracts styled text content from a Google Docs Paragraph.
+ *
+ * - Converts each `textRun` into a `TextSpan` with its inline style (bold, italic,
+ *   underline, strikethrough, monospace `code`, and link URL).
+ * - Merges adjacent runs with identical styles and drops empty runs.
+ * - Trims leading and trailing whitespace of the whole paragraph and normalizes
+ *   newline characters (`\n`) to spaces, matching `extractParagraphText`.
+ *
+ * @param paragraph - The Google Docs paragraph object.
+ * @returns The paragraph as rich text. Returns an empty array if the paragraph is empty.
+ */
+export function extractRichText(paragraph: docs_v1.Schema$Paragraph): RichText {
+  const spans: RichText = [];
+
+  for (const el of paragraph.elements ?? []) {
+    const content = el.textRun?.content;
+    if (!content) continue;
+    const span: TextSpan = {
+      text: content.replace(/\n/g, " "),
+      ...getSpanStyle(el.textRun?.textStyle),
+    };
+    const previous = spans[spans.length - 1];
+    if (previous && hasSameStyle(previous, span)) {
+      previous.text += span.text;
+    } else {
+      spans.push(span);
+    }
+  }
+
+  // Trim the paragraph as a whole, dropping whitespace-only spans at the edges.
+  const isBlank = (span: TextSpan | undefined) => !!span && !span.text.trim();
+  while (isBlank(spans[0])) spans.shift();
+  while (isBlank(spans[spans.length - 1])) spans.pop();
+
+  const first = spans[0];
+  if (first) first.text = first.text.trimStart();
+  const last = spans[spans.length - 1];
+  if (last) last.text = last.text.trimEnd();
+
+  return spans;
+}
+
 /**
  * Checks if a paragraph has a specific `namedStyleType` (e.g., HEADING_1).
  *
@@ -42,6 +135,63 @@ export function hasNamedStyle(
   return style === namedStyleType;
 }
 
+/**
+ * Normalizes section heading text for comparison: applies the `normalize` options,
+ * then trims and lowercases it (with the configured `locale`, if any).
+ *
+ * @param text - The heading text, `name`, or alias.
+ * @param normalize - The title's `normalize` option (`true` enables every option
+ *   except `locale`).
+ * @returns The normalized text.
+ */
+export function normalizeTitleText(
+  text: string,
+  normalize: boolean | TitleNormalizeOptions = false
+): string {
+  const options: TitleNormalizeOptions =
+    normalize === true
+      ? {
+          nfkc: true,
+          stripEmoji: true,
+          stripPunctuation: true,
+          collapseWhitespace: true,
+        }
+      : normalize || {};
+  let result = text;
+  if (options.nfkc) result = result.normalize("NFKC");
+  if (options.stripEmoji) result = result.replace(EMOJI_PATTERN, "");
+  if (options.stripPunctuation) result = result.replace(/[\p{P}\p{S}]/gu, " ");
+  if (options.collapseWhitespace) result = result.replace(/\s+/g, " ");
+  result = result.trim();
+  return options.locale
+    ? result.toLocaleLowerCase(options.locale)
+    : result.toLowerCase();
+}
+
+/**
+ * Checks whether heading text identifies a section title.
+ *
+ * The text matches if its normalized form equals the normalized `name` or one of
+ * the `aliases`, or if the trimmed text matches the `match` pattern.
+ *
+ * @param text - The heading text.
+ * @param title - The section title configuration.
+ * @returns `true` if the text identifies the section; otherwise `false`.
+ */
+export function matchesTitleText(text: string, title: Title): boolean {
+  const { name, aliases = [], match, normalize } = title;
+  const normalized = normalizeTitleText(text, normalize);
+  const candidateList = name ? [name, ...aliases] : aliases;
+  const isNamed = candidateList.some(
+    (candidate) => normalizeTitleText(candidate, normalize) === normalized
+  );
+  if (isNamed) return true;
+  if (!match) return false;
+  // Reset stateful (global or sticky) patterns so every heading is tested from the start.
+  match.lastIndex = 0;
+  return match.test(text.trim());
+}
+
 /**
  * Retrieves the named style type of a paragraph, handling default behaviors and edge cases.
  *
@@ -186,6 +336,20 @@ export function parseDelimitedList(text: string, delimiter: string): string[] {
   return values;
 }
 
+/**
+ * Checks if a schema defines any delimiter-based parsing rule (`keyDelimiter`, `keys`, or `delimiter`).
+ *
+ * @param schema - The schema to check.
+ * @returns `true` if text should be parsed with `parseStructuredText`.
+ */
+export function hasDelimiterSchema(schema: Schema): boolean {
+  return (
+    !!schema.keyDelimiter ||
+    (!!schema.keys && schema.keys.length > 0) ||
+    !!schema.delimiter
+  );
+}
+
 /**
  * Parses a single line of text into structured data based on the provided Schema.
  *
@@ -194,23 +358,67 @@ export function parseDelimitedList(text: string, delimiter: string): string[] {
  * 2. **Fixed Fields**: If `schema.keys` is set. (e.g., "Google | Engineer | 2023")
  * 3. **Default List**: Fallback to simple delimited list. (e.g., "A, B, C")
  *
+ * Values are then converted according to `schema.coerce`, if set.
+ *
  * @param text - The text content to parse.
  * @param schema - The schema object defining the parsing rules.
  * @returns The parsed result as an object, array, or string depending on the schema.
+ * @throws {CoercionError} If a value cannot be converted by `schema.coerce`.
  */
 export function parseStructuredText(
   text: string,
   schema: Schema
-): Record<string, unknown> | string[] | string {
+): Record<string, unknown> | unknown[] | string {
   const delimiter = schema.delimiter || ",";
 
   if (schema.keyDelimiter) {
-    return parseToKeyedList(text, schema.keyDelimiter, delimiter);
+    const keyed = parseToKeyedList(text, schema.keyDelimiter, delimiter);
+    if (typeof keyed === "string") return keyed;
+    const coercion = resolveCoercion(schema, keyed.key);
+    if (!coercion) return keyed;
+    return {
+      key: keyed.key,
+      value: keyed.value.map((v) =>
+        coerceValue(v, coercion, { field: keyed.key, text })
+      ),
+    };
   }
 
   if (schema.keys && schema.keys.length > 0) {
-    return parseToFields(text, schema.keys, delimiter);
+    const fields = parseToFields(text, schema.keys, delimiter);
+    if (!schema.coerce) return fields;
+    for (const key of schema.keys) {
+      fields[key] = coerceFieldValue(
+        fields[key] as string,
+        resolveCoercion(schema, key),
+        { field: key, text }
+      );
+    }
+    return fields;
   }
 
-  return parseDelimitedList(text, delimiter);
+  const values = parseDelimitedList(text, delimiter);
+  const coercion = resolveCoercion(schema);
+  if (!coercion) return values;
+  return values.map((v, index) =>
+    coerceValue(v, coercion, { field: `[${index}]`, text })
+  );
+}
+
+/**
+ * URL schemes allowed in rendered links. Relative URLs are always allowed.
+ */
+const SAFE_URL_SCHEMES = new Set(["http", "https", "mailto", "tel"]);
+
+/**
+ * Checks whether a link URL is safe to render as an `href`.
+ *
+ * Control characters and whitespace are ignored when reading the scheme, as browsers
+ * do, so `java\tscript:` is rejected like `javascript:`.
+ */
+export function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(
+    url.replace(/[\u0000- ]/g, "")
+  )?.[1];
+  return !scheme || SAFE_URL_SCHEMES.has(scheme.toLowerCase());
 }
@@ -0,0 +1,248 @@
+import { Node, ParseSchema, Schema, SectionContent } from "./types";
+import { VALID_NAMED_STYLES_SET } from "./constants";
+import { SchemaValidationError } from "./errors";
+import { normalizeTitleText } from "./utils";
+
+/**
+ * Identifies the kind of problem found in a schema.
+ *
+ * - `missing-section-name`: A section has no `title.name`, so it can never be matched.
+ * - `duplicate-section-name`: Two sections share a name or alias (matched case-insensitively).
+ * - `invalid-named-style`: A `namedStyleType` is not a Google Docs paragraph style, so it can never be matched.
+ * - `missing-tree-node`: A `kind: "tree"` content has no `node`, so it always parses to `[]`.
+ * - `unreachable-node`: A child node uses its parent's style, so it is parsed as a sibling instead.
+ * - `style-collision`: A node reuses the style of a higher ancestor, making the hierarchy ambiguous.
+ * - `empty-keys`: `keys` is an empty array and is ignored.
+ * - `keys-with-key-delimiter`: `keys` is ignored because `keyDelimiter` takes precedence.
+ */
+export type SchemaIssueCode =
+  | "missing-section-name"
+  | "duplicate-section-name"
+  | "invalid-named-style"
+  | "missing-tree-node"
+  | "unreachable-node"
+  | "style-collision"
+  | "empty-keys"
+  | "keys-with-key-delimiter";
+
+/**
+ * A single problem found by `validateSchema`.
+ */
+export interface SchemaIssue {
+  /** `"error"` for schemas that cannot parse as intended, `"warning"` for ignored options. */
+  severity: "error" | "warning";
+  code: SchemaIssueCode;
+  message: string;
+  /** The location in the schema (e.g., `sections[0].content.node.title`). */
+  path: string;
+}
+
+/**
+ * The result of `validateSchema`.
+ */
+export interface SchemaValidationResult {
+  /** `true` if there are no errors (warnings are allowed). */
+  valid: boolean;
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+/**
+ * Checks the delimiter options of a title, list, or table schema.
+ *
+ * @param schema - The title, list, or table schema.
+ * @param path - The location of the schema.
+ * @param issues - The issues found so far (mutated).
+ */
+function checkTextSchema(
+  schema: Schema,
+  path: string,
+  issues: SchemaIssue[]
+): void {
+  if (schema.keys && schema.keys.length === 0) {
+    issues.push({
+      severity: "warning",
+      code: "empty-keys",
+      message: "`keys` is empty and will be ignored.",
+      path: `${path}.keys`,
+    });
+  }
+  if (schema.keys && schema.keys.length > 0 && schema.keyDelimiter) {
+    issues.push({
+      severity: "warning",
+      code: "keys-with-key-delimiter",
+      message: "`keys` is ignored because `keyDelimiter` takes precedence.",
+      path: `${path}.keys`,
+    });
+  }
+}
+
+/**
+ * Checks that a `namedStyleType` is a paragraph style the parser can match: a heading
+ * style, or `NORMAL_TEXT` (which `hasNamedStyle` matches like any other style).
+ *
+ * @param style - The style to check.
+ * @param path - The location of the style.
+ * @param issues - The issues found so far (mutated).
+ */
+function checkNamedStyle(
+  style: string | undefined,
+  path: string,
+  issues: SchemaIssue[]
+): void {
+  const isMatchable =
+    style === undefined ||
+    style === "NORMAL_TEXT" ||
+    VALID_NAMED_STYLES_SET.has(style);
+  if (!isMatchable) {
+    issues.push({
+      severity: "error",
+      code: "invalid-named-style",
+      message: `"${style}" is not a paragraph style and will never match.`,
+      path: `${path}.namedStyleType`,
+    });
+  }
+}
+
+/**
+ * Recursively checks a tree node and its descendants.
+ *
+ * @param node - The node schema.
+ * @param path - The location of the node.
+ * @param ancestorStyleList - The title styles of the ancestor nodes, nearest first.
+ * @param issues - The issues found so far (mutated).
+ */
+function checkNode(
+  node: Node,
+  path: string,
+  ancestorStyleList: string[],
+  issues: SchemaIssue[]
+): void {
+  const style = node.title.namedStyleType;
+  checkNamedStyle(style, `${path}.title`, issues);
+  checkTextSchema(node.title, `${path}.title`, issues);
+
+  const [parentStyle, ...higherStyleList] = ancestorStyleList;
+  if (style === parentStyle) {
+    issues.push({
+      severity: "error",
+      code: "unreachable-node",
+      message: `The node uses its parent's style "${style}", so it will be parsed as a sibling.`,
+      path: `${path}.title.namedStyleType`,
+    });
+  } else if (higherStyleList.includes(style)) {
+    issues.push({
+      severity: "error",
+      code: "style-collision",
+      message: `The node reuses the ancestor style "${style}", making the hierarchy ambiguous.`,
+      path: `${path}.title.namedStyleType`,
+    });
+  }
+
+  checkContent(
+    node.content,
+    `${path}.content`,
+    [style, ...ancestorStyleList],
+    issues
+  );
+}
+
+/**
+ * Checks the content schema of a section or node.
+ *
+ * @param content - The content schema, if any.
+ * @param path - The location of the content.
+ * @param ancestorStyleList - The title styles of the enclosing nodes, nearest first.
+ * @param issues - The issues found so far (mutated).
+ */
+function checkContent(
+  content: SectionContent | undefined,
+  path: string,
+  ancestorStyleList: string[],
+  issues: SchemaIssue[]
+): void {
+  if (content?.kind === "list" || content?.kind === "table") {
+    checkTextSchema(content, path, issues);
+  } else if (content?.kind === "tree") {
+    if (!content.node) {
+      issues.push({
+        severity: "error",
+        code: "missing-tree-node",
+        message: "Tree content has no `node` and will always be empty.",
+        path,
+      });
+      return;
+    }
+    checkNode(content.node, `${path}.node`, ancestorStyleList, issues);
+  }
+}
+
+/**
+ * Validates a parse schema, reporting problems that would otherwise make parsing
+ * silently skip sections, nodes, or options.
+ *
+ * @param schema - The schema to validate.
+ * @returns The errors and warnings found, with `valid` set when there are no errors.
+ */
+export function validateSchema(schema: ParseSchema): SchemaValidationResult {
+  const issues: SchemaIssue[] = [];
+  const seenNameMap = new Map<string, number>();
+
+  (schema.sections ?? []).forEach((section, index) => {
+    const path = `sections[${index}]`;
+    const name = section.title.name?.trim();
+
+    if (!name) {
+      issues.push({
+        severity: "error",
+        code: "missing-section-name",
+        message: "The section has no `title.name` and will never be matched.",
+        path: `${path}.title.name`,
+      });
+    } else {
+      const { aliases = [], normalize } = section.title;
+      const candidateList: [string, string][] = [
+        [name, `${path}.title.name`],
+        ...aliases.map((alias, i): [string, string] => [
+          alias,
+          `${path}.title.aliases[${i}]`,
+        ]),
+      ];
+      for (const [candidate, candidatePath] of candidateList) {
+        const normalized = normalizeTitleText(candidate, normalize);
+        const firstIndex = seenNameMap.get(normalized);
+        if (firstIndex === undefined) {
+          seenNameMap.set(normalized, index);
+        } else if (firstIndex !== index) {
+          issues.push({
+            severity: "error",
+            code: "duplicate-section-name",
+            message: `The name "${candidate}" is already used by sections[${firstIndex}].`,
+            path: candidatePath,
+          });
+        }
+      }
+    }
+
+    checkNamedStyle(section.title.namedStyleType, `${path}.title`, issues);
+
+    checkContent(section.content, `${path}.content`, [], issues);
+  });
+
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warning");
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validates a parse schema and throws if it has errors. Warnings are ignored.
+ *
+ * @param schema - The schema to validate.
+ * @throws {SchemaValidationError} If `validateSchema` reports any errors.
+ */
+export function assertValidSchema(schema: ParseSchema): void {
+  const { errors } = validateSchema(schema);
+  if (errors.length > 0) {
+    throw new SchemaValidationError(errors);
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { createDocsClient } from "../src/auth";
+import { createDocsClient, getCredentialIdentity } from "../src/auth";
 import { GoogleAuth } from "google-auth-library";
 import { google } from "googleapis";
 
@@ -85,6 +85,81 @@ describe("createDocsClient", () => {
     });
   });
 
+  describe("Explicit Options", () => {
+    it("should return the provided docsClient without creating GoogleAuth", () => {
+      // Arrange
+      const docsClient = { context: "prebuilt" };
+
+      // Act
+      const result = createDocsClient({ docsClient: docsClient as never });
+
+      // Assert
+      expect(result).toBe(docsClient);
+      expect(GoogleAuth).not.toHaveBeenCalled();
+      expect(google.docs).not.toHaveBeenCalled();
+    });
+
+    it("should use the provided authClient instead of creating GoogleAuth", () => {
+      // Arrange
+      const authClient = { client: "custom-auth" };
+
+      // Act
+      createDocsClient({ authClient: authClient as never });
+
+      // Assert
+      expect(GoogleAuth).not.toHaveBeenCalled();
+      expect(google.docs).toHaveBeenCalledWith({
+        version: "v1",
+        auth: authClient,
+      });
+    });
+
+    it("should pass explicit credentials (object or JSON string) to GoogleAuth", () => {
+      // Arrange
+      const credentials = { client_email: "bot@example.com", private_key: "k" };
+      (GoogleAuth as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+        function () {
+          return {};
+        }
+      );
+
+      // Act
+      createDocsClient({ credentials });
+      createDocsClient({ credentials: JSON.stringify(credentials) });
+
+      // Assert
+      expect(GoogleAuth).toHaveBeenNthCalledWith(1, {
+        credentials,
+        scopes: ["https://www.googleapis.com/auth/documents.readonly"],
+      });
+      expect(GoogleAuth).toHaveBeenNthCalledWith(2, {
+        credentials,
+        scopes: ["https://www.googleapis.com/auth/documents.readonly"],
+      });
+    });
+
+    it("should forward a custom fetch implementation to the Docs client", () => {
+      // Arrange
+      const customFetch = vi.fn() as unknown as typeof fetch;
+      const mockAuthInstance = {};
+      (GoogleAuth as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+        function () {
+          return mockAuthInstance;
+        }
+      );
+
+      // Act
+      createDocsClient({ fetch: customFetch });
+
+      // Assert
+      expect(google.docs).toHaveBeenCalledWith({
+        version: "v1",
+        auth: mockAuthInstance,
+        fetchImplementation: customFetch,
+      });
+    });
+  });
+
   describe("Error Handling", () => {
     it("should throw a wrapped error if GoogleAuth initialization fails", () => {
       // Arrange
@@ -134,3 +209,28 @@ describe("createDocsClient", () => {
     });
   });
 });
+
+// ======================================================================
+// 2. Helper: getCredentialIdentity
+// ======================================================================
+describe("getCredentialIdentity", () => {
+  it("should identify service accounts by email and clients by object", () => {
+    // Arrange
+    const account = (email: string) => ({ client_email: email, private_key: "key" });
+    const authClient = new GoogleAuth();
+
+    // Act & Assert
+    expect(getCredentialIdentity({ credentials: account("a@x.iam") })).toBe(
+      getCredentialIdentity({ credentials: JSON.stringify(account("a@x.iam")) })
+    );
+    expect(getCredentialIdentity({ credentials: account("a@x.iam") })).not.toBe(
+      getCredentialIdentity({ credentials: account("b@x.iam") })
+    );
+    expect(getCredentialIdentity({ authClient })).toBe(
+      getCredentialIdentity({ authClient })
+    );
+    expect(getCredentialIdentity({ authClient })).not.toBe(
+      getCredentialIdentity({ authClient: new GoogleAuth() })
+    );
+  });
+});
@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ParseSchema } from "../src/types";
+import {
+  createLruCacheStore,
+  getCacheKey,
+  getCachedResult,
+  CacheStore,
+} from "../src/cache";
+import { getParsedDocument as getEdgeParsedDocument } from "../src/edge";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ======================================================================
+// 1. Store: createLruCacheStore
+// ======================================================================
+describe("createLruCacheStore", () => {
+  it("should evict the least recently used entry when full", () => {
+    // Arrange
+    const store = createLruCacheStore({ maxEntries: 2 });
+    store.set("a", "1", 60);
+    store.set("b", "2", 60);
+    store.get("a");
+
+    // Act
+    store.set("c", "3", 60);
+
+    // Assert
+    expect(store.get("a")).toBe("1");
+    expect(store.get("b")).toBeNull();
+    expect(store.get("c")).toBe("3");
+  });
+
+  it("should drop entries once their TTL has elapsed", () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createLruCacheStore();
+    store.set("a", "1", 10);
+
+    // Act
+    vi.advanceTimersByTime(10_000);
+
+    // Assert
+    expect(store.get("a")).toBeNull();
+  });
+});
+
+// ======================================================================
+// 2. Helper Function: getCacheKey
+// ======================================================================
+describe("getCacheKey", () => {
+  const schema: ParseSchema = {
+    sections: [{ title: { name: "A", namedStyleType: "HEADING_2" } }],
+  };
+
+  it("should produce the same key for equal schemas regardless of key order", () => {
+    // Arrange
+    const reordered: ParseSchema = {
+      sections: [{ title: { namedStyleType: "HEADING_2", name: "A" } }],
+    };
+
+    // Act & Assert
+    expect(getCacheKey("doc", schema, "result")).toBe(
+      getCacheKey("doc", reordered, "result")
+    );
+  });
+
+  it("should distinguish schemas, coerce functions, match patterns, and parse options", () => {
+    // Arrange
+    const withCoerce = (fn: (value: string) => unknown): ParseSchema => ({
+      sections: [
+        {
+          title: { name: "A", namedStyleType: "HEADING_2" },
+          content: { kind: "list", coerce: fn },
+        },
+      ],
+    });
+    const withMatch = (match: RegExp): ParseSchema => ({
+      sections: [{ title: { name: "A", namedStyleType: "HEADING_2", match } }],
+    });
+
+    // Act
+    const keys = new Set([
+      getCacheKey("doc", schema, "result"),
+      getCacheKey("doc", schema, "result", { diagnostics: true }),
+      getCacheKey("doc", withCoerce((v) => v.length), "result"),
+      getCacheKey("doc", withCoerce((v) => v.trim()), "result"),
+      getCacheKey("doc", withMatch(/^a/), "result"),
+      getCacheKey("doc", withMatch(/^b/), "result"),
+    ]);
+
+    const withCapturedCoerce = (factor: number) =>
+      withCoerce((v) => Number(v) * factor);
+    const sharedCoerce = withCapturedCoerce(1);
+
+    // Assert
+    expect(keys.size).toBe(6);
+    expect(getCacheKey("doc", withCapturedCoerce(1), "result")).not.toBe(
+      getCacheKey("doc", withCapturedCoerce(100), "result")
+    );
+    expect(getCacheKey("doc", sharedCoerce, "result")).toBe(
+      getCacheKey("doc", sharedCoerce, "result")
+    );
+    expect(getCacheKey("doc", schema, "document")).toBe(
+      "google-docs-parser:document:doc"
+    );
+  });
+});
+
+// ======================================================================
+// 3. Core Logic: getCachedResult
+// ======================================================================
+describe("getCachedResult", () => {
+  /**
+   * Creates a fetch function returning documents with the given revisions in order.
+   */
+  function createFetcher(...revisionIds: string[]) {
+    const fetcher = vi.fn();
+    revisionIds.forEach((revisionId) =>
+      fetcher.mockResolvedValueOnce({ revisionId, body: revisionId })
+    );
+    return fetcher;
+  }
+
+  it("should serve fresh entries without fetching", async () => {
+    // Arrange
+    const store = createLruCacheStore();
+    const fetcher = createFetcher("r1");
+    const parse = vi.fn((doc: { body: string }) => doc.body);
+
+    // Act
+    const first = await getCachedResult("k", fetcher, parse, { store });
+    const second = await getCachedResult("k", fetcher, parse, { store });
+
+    // Assert
+    expect([first, second]).toEqual(["r1", "r1"]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(parse).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip parsing on refresh when the revision is unchanged", async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createLruCacheStore();
+    const fetcher = createFetcher("r1", "r1", "r2");
+    const parse = vi.fn((doc: { body: string }) => doc.body);
+    const background: Promise<unknown>[] = [];
+    const options = {
+      store,
+      ttl: 10,
+      staleWhileRevalidate: 60,
+      waitUntil: (promise: Promise<unknown>) => background.push(promise),
+    };
+
+    // Act
+    await getCachedResult("k", fetcher, parse, options);
+    vi.advanceTimersByTime(20_000);
+    await getCachedResult("k", fetcher, parse, options);
+    await Promise.all(background);
+    vi.advanceTimersByTime(20_000);
+    await getCachedResult("k", fetcher, parse, options);
+    await Promise.all(background);
+    const result = await getCachedResult("k", fetcher, parse, options);
+
+    // Assert
+    expect(result).toBe("r2");
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(parse).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not share refreshes between different stores", async () => {
+    // Arrange
+    const firstStore = createLruCacheStore();
+    const secondStore = createLruCacheStore();
+    const fetcher = createFetcher("r1", "r2");
+    const parse = (doc: { body: string }) => doc.body;
+
+    // Act
+    const results = await Promise.all([
+      getCachedResult("k", fetcher, parse, { store: firstStore }),
+      getCachedResult("k", fetcher, parse, { store: secondStore }),
+    ]);
+
+    // Assert
+    expect(results).toEqual(["r1", "r2"]);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(firstStore.get("k")).toContain('"r1"');
+    expect(secondStore.get("k")).toContain('"r2"');
+  });
+
+  it("should serve stale entries while refreshing in the background", async () => {
+    // Arrange
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createLruCacheStore();
+    const fetcher = createFetcher("r1", "r2");
+    const parse = (doc: { body: string }) => doc.body;
+    const background: Promise<unknown>[] = [];
+    const options = {
+      store,
+      ttl: 10,
+      staleWhileRevalidate: 60,
+      waitUntil: (promise: Promise<unknown>) => background.push(promise),
+    };
+    await getCachedResult("k", fetcher, parse, options);
+    vi.advanceTimersByTime(30_000);
+
+    // Act
+    const stale = await getCachedResult("k", fetcher, parse, options);
+    await Promise.all(background);
+    const refreshed = await getCachedResult("k", fetcher, parse, options);
+
+    // Assert
+    expect(stale).toBe("r1");
+    expect(refreshed).toBe("r2");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("should preserve Date values and store entries for ttl + staleWhileRevalidate", async () => {
+    // Arrange
+    const values = new Map<string, string>();
+    const store: CacheStore = {
+      get: async (key) => values.get(key),
+      set: vi.fn(async (key: string, value: string) => {
+        values.set(key, value);
+      }),
+    };
+    const fetcher = createFetcher("r1");
+    const parse = () => ({ published: new Date("2024-05-01T00:00:00Z") });
+    const options = { store, ttl: 30, staleWhileRevalidate: 90 };
+
+    // Act
+    await getCachedResult("k", fetcher, parse, options);
+    const cached = await getCachedResult("k", fetcher, parse, options);
+
+    // Assert
+    expect(cached.published).toBeInstanceOf(Date);
+    expect(cached.published.toISOString()).toBe("2024-05-01T00:00:00.000Z");
+    expect(store.set).toHaveBeenCalledWith("k", expect.any(String), 120);
+  });
+
+  it("should cache the raw document and parse it on every call in document mode", async () => {
+    // Arrange
+    const store = createLruCacheStore();
+    const fetcher = createFetcher("r1");
+    const parse = vi.fn((doc: { body: string }) => doc.body.toUpperCase());
+    const options = { store, mode: "document" as const };
+
+    // Act
+    await getCachedResult("k", fetcher, parse, options);
+    const result = await getCachedResult("k", fetcher, parse, options);
+
+    // Assert
+    expect(result).toBe("R1");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(parse).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ======================================================================
+// 4. Integration: Edge getParsedDocument
+// ======================================================================
+describe("getParsedDocument (edge) - cache", () => {
+  it("should serve repeated calls from the cache store", async () => {
+    // Arrange
+    const schema = {
+      sections: [{ title: { name: "About", namedStyleType: "HEADING_2" } }],
+    } as const satisfies ParseSchema;
+    const doc = {
+      ...createMockDocument([
+        createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+        createMockParagraph({ text: "Hello" }),
+      ]),
+      revisionId: "r1",
+    };
+    const fetchMock = vi.fn<typeof fetch>(async () => Response.json(doc));
+    const options = {
+      accessToken: "token",
+      fetch: fetchMock,
+      cache: { store: createLruCacheStore() },
+    };
+
+    // Act
+    const first = await getEdgeParsedDocument("cached-doc", schema, options);
+    const second = await getEdgeParsedDocument("cached-doc", schema, options);
+
+    // Assert
+    expect(first).toEqual({ About: "Hello" });
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not share entries between different credentials unless namespaced", async () => {
+    // Arrange
+    const schema = {
+      sections: [{ title: { name: "About", namedStyleType: "HEADING_2" } }],
+    } as const satisfies ParseSchema;
+    const fetchMock = vi.fn<typeof fetch>(async () =>
+      Response.json(createMockDocument([]))
+    );
+    const store = createLruCacheStore();
+    const call = (accessToken: string, namespace?: string) =>
+      getEdgeParsedDocument("shared-doc", schema, {
+        accessToken,
+        fetch: fetchMock,
+        cache: { store, ...(namespace && { namespace }) },
+      });
+
+    // Act
+    await call("tenant-a-token");
+    await call("tenant-b-token");
+    await call("tenant-a-token");
+    const fetchesWithoutNamespace = fetchMock.mock.calls.length;
+    await call("tenant-a-token", "acme");
+    await call("rotated-token", "acme");
+
+    // Assert
+    expect(fetchesWithoutNamespace).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should let a caller abort without failing others waiting for the same refresh", async () => {
+    // Arrange
+    const schema = {
+      sections: [{ title: { name: "About", namedStyleType: "HEADING_2" } }],
+    } as const satisfies ParseSchema;
+    let respond: (response: Response) => void = () => {};
+    const fetchMock = vi.fn<typeof fetch>(
+      () => new Promise<Response>((resolve) => (respond = resolve))
+    );
+    const options = {
+      accessToken: "token",
+      fetch: fetchMock,
+      cache: { store: createLruCacheStore() },
+    };
+    const controller = new AbortController();
+
+    // Act
+    const aborted = getEdgeParsedDocument("slow-doc", schema, {
+      ...options,
+      signal: controller.signal,
+    });
+    const waiting = getEdgeParsedDocument("slow-doc", schema, options);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort(new Error("client went away"));
+    respond(Response.json(createMockDocument([])));
+
+    // Assert
+    await expect(aborted).rejects.toThrow("client went away");
+    await expect(waiting).resolves.toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[1]?.signal).toBeUndefined();
+  });
+});
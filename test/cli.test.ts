@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli, formatYaml, formatMarkdown, EXIT_CODES } from "../src/cli";
+import { DocsNotFoundError } from "../src/errors";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+const { mockDocsGet } = vi.hoisted(() => ({ mockDocsGet: vi.fn() }));
+
+vi.mock("../src/auth", () => ({
+  createDocsClient: vi.fn(() => ({ documents: { get: mockDocsGet } })),
+}));
+
+/**
+ * Runs the CLI, capturing its output.
+ */
+async function run(argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const exitCode = await runCli(argv, {
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  });
+  return { exitCode, stdout, stderr };
+}
+
+const doc = createMockDocument([
+  createMockParagraph({ text: "Profile", namedStyleType: "HEADING_1" }),
+  createMockParagraph({ text: "Software engineer", namedStyleType: "NORMAL_TEXT" }),
+  createMockParagraph({ text: "Skills", namedStyleType: "HEADING_1" }),
+  createMockParagraph({ text: "TypeScript", namedStyleType: "NORMAL_TEXT", bullet: true }),
+  createMockParagraph({ text: "Go", namedStyleType: "NORMAL_TEXT", bullet: true }),
+]);
+
+let dir: string;
+let dumpPath: string;
+let schemaPath: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "google-docs-parser-cli-"));
+  dumpPath = join(dir, "doc.json");
+  schemaPath = join(dir, "schema.mjs");
+  await writeFile(dumpPath, JSON.stringify(doc));
+  await writeFile(
+    schemaPath,
+    `export const schema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+        { title: { name: "Skills", namedStyleType: "HEADING_1" }, content: { kind: "list", isFlatten: true } },
+      ],
+    };
+    export const partialSchema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+        { title: { name: "Education", namedStyleType: "HEADING_1" } },
+      ],
+    };
+    export const invalidSchema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_7" } },
+      ],
+    };
+    export const strictSchema = {
+      sections: [
+        { title: { name: "Education", namedStyleType: "HEADING_1" }, required: true },
+      ],
+    };`
+  );
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ======================================================================
+// 1. Formatting: formatYaml / formatMarkdown
+// ======================================================================
+describe("formatYaml", () => {
+  it("should write nested mappings and sequences, quoting ambiguous strings", () => {
+    // Act
+    const yaml = formatYaml({
+      Profile: "Engineer",
+      Skills: ["TypeScript", "true", "a: b"],
+      Experience: [{ title: "Acme", content: [] }],
+    });
+
+    // Assert
+    expect(yaml).toBe(
+      [
+        "Profile: Engineer",
+        "Skills:",
+        "  - TypeScript",
+        '  - "true"',
+        '  - "a: b"',
+        "Experience:",
+        "  - title: Acme",
+        "    content: []",
+      ].join("\n")
+    );
+  });
+
+  it("should quote strings that YAML would read as numbers", () => {
+    // Act
+    const yaml = formatYaml({ Values: [".5", ".inf", "-.Inf", ".nan", "1e3", "0x1F", "0o17", "v1.5"] });
+
+    // Assert
+    expect(yaml).toBe(
+      [
+        "Values:",
+        '  - ".5"',
+        '  - ".inf"',
+        '  - "-.Inf"',
+        '  - ".nan"',
+        '  - "1e3"',
+        '  - "0x1F"',
+        '  - "0o17"',
+        "  - v1.5",
+      ].join("\n")
+    );
+  });
+});
+
+describe("formatMarkdown", () => {
+  it("should write one heading per section with lists as bullets", () => {
+    // Act
+    const markdown = formatMarkdown({
+      Profile: "Engineer",
+      Skills: ["TypeScript", "Go"],
+    });
+
+    // Assert
+    expect(markdown).toBe(
+      "## Profile\n\nEngineer\n\n## Skills\n\n- TypeScript\n- Go"
+    );
+  });
+});
+
+// ======================================================================
+// 2. Command: runCli
+// ======================================================================
+describe("runCli", () => {
+  it("should parse a local JSON dump and print the result as JSON", async () => {
+    // Act
+    const { exitCode, stdout } = await run([dumpPath, "--schema", schemaPath]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(JSON.parse(stdout)).toEqual({
+      Profile: "Software engineer",
+      Skills: ["TypeScript", "Go"],
+    });
+  });
+
+  it("should fetch a document by ID and print it as YAML", async () => {
+    // Arrange
+    mockDocsGet.mockResolvedValueOnce({ data: doc });
+
+    // Act
+    const { exitCode, stdout } = await run([
+      "doc-123",
+      "-s",
+      schemaPath,
+      "-f",
+      "yaml",
+    ]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(mockDocsGet).toHaveBeenCalledWith({ documentId: "doc-123" }, { retry: false });
+    expect(stdout).toBe(
+      "Profile: Software engineer\nSkills:\n  - TypeScript\n  - Go\n"
+    );
+  });
+
+  it("should print the document itself with --raw, without a schema", async () => {
+    // Act
+    const { exitCode, stdout } = await run([dumpPath, "--raw"]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(JSON.parse(stdout)).toEqual(doc);
+  });
+
+  it("should print diagnostics to stderr, keeping stdout parseable", async () => {
+    // Act
+    const { exitCode, stdout, stderr } = await run([
+      dumpPath,
+      "--schema",
+      schemaPath,
+      "--export",
+      "partialSchema",
+      "--diagnostics",
+    ]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(JSON.parse(stdout)).toEqual({ Profile: "Software engineer" });
+    expect(stderr).toMatch(/^missing-section: .*Education/);
+  });
+
+  it("should exit with the missing-required code when a required section is missing", async () => {
+    // Act
+    const { exitCode, stderr } = await run([
+      dumpPath,
+      "--schema",
+      schemaPath,
+      "--export",
+      "strictSchema",
+    ]);
+
+    // Assert
+    expect(exitCode).toBe(3);
+    expect(stderr).toMatch(/^Error: .*Education/);
+  });
+
+  it("should print diagnostics before exiting for a missing required section", async () => {
+    // Act
+    const { exitCode, stdout, stderr } = await run([
+      dumpPath,
+      "--schema",
+      schemaPath,
+      "--export",
+      "strictSchema",
+      "--diagnostics",
+    ]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.missingRequired);
+    expect(stdout).toBe("");
+    expect(stderr).toContain('Required section "Education" (HEADING_1) was not found.');
+    expect(stderr).toContain("Error: ");
+  });
+
+  it("should exit with the API code when the document cannot be fetched", async () => {
+    // Arrange
+    mockDocsGet.mockRejectedValueOnce(
+      new DocsNotFoundError("Not found", { status: 404 })
+    );
+
+    // Act
+    const { exitCode } = await run(["missing-doc", "--schema", schemaPath]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.api);
+  });
+
+  it("should print an inferred schema module with the infer command", async () => {
+    // Act
+    const { exitCode, stdout } = await run(["infer", dumpPath, "--export", "resumeSchema"]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(stdout).toContain("export const resumeSchema = {");
+    expect(stdout).toContain('{ title: { name: "Profile", namedStyleType: "HEADING_1" } },');
+    expect(stdout).toContain("} as const satisfies ParseSchema;");
+  });
+
+  it("should reject an infer export name that is not an identifier", async () => {
+    // Act
+    const { exitCode, stdout, stderr } = await run(["infer", dumpPath, "--export", "my-schema"]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.usage);
+    expect(stdout).toBe("");
+    expect(stderr).toContain('Invalid export name "my-schema"');
+  });
+
+  it("should parse with a schema written by infer --format json", async () => {
+    // Arrange
+    const inferred = await run(["infer", dumpPath, "--format", "json"]);
+    const inferredPath = join(dir, "inferred.json");
+    await writeFile(inferredPath, inferred.stdout);
+
+    // Act
+    const { exitCode, stdout } = await run([dumpPath, "--schema", inferredPath]);
+
+    // Assert
+    expect(inferred.exitCode).toBe(EXIT_CODES.success);
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(Object.keys(JSON.parse(stdout))).toContain("Profile");
+  });
+
+  it("should reject a TypeScript schema path with a usage error", async () => {
+    // Arrange
+    const tsPath = join(dir, "schema.ts");
+    await writeFile(tsPath, (await run(["infer", dumpPath])).stdout);
+
+    // Act
+    const { exitCode, stderr } = await run([dumpPath, "--schema", tsPath]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain(`Cannot load the TypeScript schema ${tsPath}`);
+  });
+
+  it("should reject an unknown infer format", async () => {
+    // Act
+    const { exitCode, stdout } = await run(["infer", dumpPath, "--format", "yaml"]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.usage);
+    expect(stdout).toBe("");
+  });
+
+  it("should exit with 2 and print each issue for an invalid schema", async () => {
+    // Act
+    const { exitCode, stderr } = await run([
+      dumpPath,
+      "--schema",
+      schemaPath,
+      "--export",
+      "invalidSchema",
+    ]);
+
+    // Assert
+    expect(exitCode).toBe(EXIT_CODES.usage);
+    expect(stderr).toBe(
+      [
+        "Error: Invalid parse schema:",
+        '  sections[0].title.namedStyleType: "HEADING_7" is not a paragraph style and will never match. [invalid-named-style]',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should print usage and exit with 2 for invalid arguments", async () => {
+    // Act
+    const noSchema = await run([dumpPath]);
+    const badFormat = await run([dumpPath, "-s", schemaPath, "-f", "xml"]);
+    const unknownFlag = await run([dumpPath, "--nope"]);
+
+    // Assert
+    expect(noSchema.exitCode).toBe(EXIT_CODES.usage);
+    expect(noSchema.stderr).toContain("--schema is required");
+    expect(badFormat.exitCode).toBe(EXIT_CODES.usage);
+    expect(unknownFlag.exitCode).toBe(EXIT_CODES.usage);
+    expect(unknownFlag.stderr).toContain("Usage: google-docs-parser");
+  });
+});
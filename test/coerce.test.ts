@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  coerceValue,
+  coerceFieldValue,
+  isFieldCoercionMap,
+  resolveCoercion,
+} from "../src/coerce";
+import { CoercionError } from "../src/errors";
+
+const context = { field: "year", text: "Google | abc" };
+
+// ======================================================================
+// 1. Core Logic: coerceValue
+// ======================================================================
+/**
+ * Verifies each built-in coercion, enum restriction, and custom function,
+ * including the error details reported on failure.
+ */
+describe("coerceValue", () => {
+  describe("Built-in Coercions", () => {
+    it("should coerce numbers and integers", () => {
+      expect(coerceValue("12.5", "number", context)).toBe(12.5);
+      expect(coerceValue("2024", "integer", context)).toBe(2024);
+    });
+
+    it("should reject non-numeric and non-integer values", () => {
+      expect(() => coerceValue("abc", "number", context)).toThrow(
+        CoercionError
+      );
+      expect(() => coerceValue("1.5", "integer", context)).toThrow(
+        'Cannot coerce "1.5" to integer'
+      );
+    });
+
+    it("should coerce common boolean spellings case-insensitively", () => {
+      expect(coerceValue("Yes", "boolean", context)).toBe(true);
+      expect(coerceValue("on", "boolean", context)).toBe(true);
+      expect(coerceValue("NO", "boolean", context)).toBe(false);
+      expect(coerceValue("0", "boolean", context)).toBe(false);
+      expect(() => coerceValue("maybe", "boolean", context)).toThrow(
+        CoercionError
+      );
+    });
+
+    it("should coerce ISO dates into Date objects", () => {
+      const result = coerceValue("2024-05-01", "date", context);
+
+      expect(result).toBeInstanceOf(Date);
+      expect((result as Date).toISOString()).toBe("2024-05-01T00:00:00.000Z");
+      expect(() => coerceValue("May 1st", "date", context)).toThrow(
+        "Cannot coerce \"May 1st\" to an ISO date"
+      );
+    });
+
+    it("should validate and normalize URLs", () => {
+      expect(coerceValue("https://example.com", "url", context)).toBe(
+        "https://example.com/"
+      );
+      expect(() => coerceValue("example", "url", context)).toThrow(
+        CoercionError
+      );
+    });
+
+    it("should leave values unchanged for the 'string' coercion", () => {
+      expect(coerceValue("as-is", "string", context)).toBe("as-is");
+    });
+  });
+
+  describe("Enum & Custom Coercions", () => {
+    it("should accept only values listed in an enum", () => {
+      const coercion = { enum: ["remote", "onsite"] } as const;
+
+      expect(coerceValue("remote", coercion, context)).toBe("remote");
+      expect(() => coerceValue("hybrid", coercion, context)).toThrow(
+        'Cannot coerce "hybrid" to one of [remote, onsite]'
+      );
+    });
+
+    it("should apply a custom function and wrap its errors", () => {
+      const double = (v: string) => Number(v) * 2;
+      const failing = () => {
+        throw new Error("boom");
+      };
+
+      expect(coerceValue("21", double, context)).toBe(42);
+      expect(() => coerceValue("x", failing, context)).toThrow(
+        "Custom coercion failed for \"x\": boom"
+      );
+    });
+  });
+
+  describe("Error Details", () => {
+    it("should name the field and the paragraph text in the error", () => {
+      // Act
+      let error: unknown;
+      try {
+        coerceValue("abc", "integer", context);
+      } catch (e) {
+        error = e;
+      }
+
+      // Assert
+      expect(error).toBeInstanceOf(CoercionError);
+      expect(error).toMatchObject({
+        field: "year",
+        value: "abc",
+        text: "Google | abc",
+      });
+      expect((error as Error).message).toContain(
+        'field "year" in paragraph "Google | abc"'
+      );
+    });
+  });
+});
+
+// ======================================================================
+// 2. Helpers: coerceFieldValue / resolveCoercion / isFieldCoercionMap
+// ======================================================================
+describe("Coercion Helpers", () => {
+  it("should map empty field values to null for built-in coercions", () => {
+    expect(coerceFieldValue("", "integer", context)).toBeNull();
+    expect(coerceFieldValue("", "string", context)).toBe("");
+    expect(coerceFieldValue("", (v) => v.length, context)).toBe(0);
+    expect(coerceFieldValue("7", undefined, context)).toBe("7");
+  });
+
+  it("should distinguish enum coercions from field maps", () => {
+    expect(isFieldCoercionMap({ enum: ["a"] })).toBe(false);
+    expect(isFieldCoercionMap({ year: "integer" })).toBe(true);
+    expect(isFieldCoercionMap("number")).toBe(false);
+  });
+
+  it("should resolve per-field and single coercions", () => {
+    expect(resolveCoercion({ coerce: "number" }, "any")).toBe("number");
+    expect(resolveCoercion({ coerce: { year: "integer" } }, "year")).toBe(
+      "integer"
+    );
+    expect(resolveCoercion({ coerce: { year: "integer" } }, "name")).toBe(
+      undefined
+    );
+    expect(resolveCoercion({ coerce: { year: "integer" } })).toBe(undefined);
+    expect(resolveCoercion({}, "year")).toBe(undefined);
+  });
+});
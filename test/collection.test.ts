@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import { ParseSchema } from "../src/types";
+import {
+  buildFolderQuery,
+  filterFolderFiles,
+  toCollectionEntries,
+} from "../src/collection";
+import { DocsNotFoundError } from "../src/errors";
+import { getParsedCollection as getEdgeParsedCollection } from "../src/edge";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+const files = [
+  { id: "1", name: "Post: Hello", modifiedTime: "2024-05-01T00:00:00Z" },
+  { id: "2", name: "Draft: Ideas", modifiedTime: "2024-05-02T00:00:00Z" },
+];
+
+// ======================================================================
+// 1. Helper Function: buildFolderQuery
+// ======================================================================
+describe("buildFolderQuery", () => {
+  it("should query the non-trashed Google Docs of the folder", () => {
+    // Act
+    const query = buildFolderQuery("folder-1");
+
+    // Assert
+    expect(query).toBe(
+      "'folder-1' in parents and mimeType = 'application/vnd.google-apps.document' and trashed = false"
+    );
+  });
+
+  it("should add modified time bounds and escape quotes", () => {
+    // Act
+    const query = buildFolderQuery("it's", {
+      modifiedAfter: "2024-01-01",
+      modifiedBefore: new Date("2024-02-01T00:00:00Z"),
+    });
+
+    // Assert
+    expect(query).toContain("'it\\'s' in parents");
+    expect(query).toContain("modifiedTime > '2024-01-01T00:00:00.000Z'");
+    expect(query).toContain("modifiedTime < '2024-02-01T00:00:00.000Z'");
+  });
+});
+
+// ======================================================================
+// 2. Helper Functions: filterFolderFiles & toCollectionEntries
+// ======================================================================
+describe("filterFolderFiles", () => {
+  it("should keep only names matching the pattern, even for global patterns", () => {
+    // Arrange
+    const namePattern = /^Post:/g;
+
+    // Act & Assert
+    expect(filterFolderFiles(files, { namePattern })).toEqual([files[0]]);
+    expect(filterFolderFiles(files, { namePattern })).toEqual([files[0]]);
+    expect(filterFolderFiles(files)).toEqual(files);
+  });
+});
+
+describe("toCollectionEntries", () => {
+  const error = new Error("broken");
+  const results = [
+    { documentId: "1", status: "fulfilled" as const, value: "data" },
+    { documentId: "2", status: "rejected" as const, reason: error },
+  ];
+
+  it("should throw the first failure by default", () => {
+    // Act & Assert
+    expect(() => toCollectionEntries(files, results)).toThrow(error);
+  });
+
+  it("should skip failures with onError: skip", () => {
+    // Act
+    const entries = toCollectionEntries(files, results, "skip");
+
+    // Assert
+    expect(entries).toEqual([{ ...files[0], data: "data" }]);
+  });
+});
+
+// ======================================================================
+// 3. Integration: Edge getParsedCollection
+// ======================================================================
+describe("getParsedCollection (edge)", () => {
+  const schema = {
+    sections: [{ title: { name: "Body", namedStyleType: "HEADING_2" } }],
+  } as const satisfies ParseSchema;
+
+  /**
+   * A fetch mock serving a two-page Drive listing and one document per ID.
+   */
+  function createDriveFetch(missingId?: string) {
+    return vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input));
+      if (url.hostname === "www.googleapis.com") {
+        return url.searchParams.get("pageToken") === "p2"
+          ? Response.json({ files: [files[1]] })
+          : Response.json({ files: [files[0]], nextPageToken: "p2" });
+      }
+      const documentId = url.pathname.split("/").pop();
+      if (documentId === missingId) {
+        return new Response("Not Found", { status: 404 });
+      }
+      return Response.json(
+        createMockDocument([
+          createMockParagraph({ text: "Body", namedStyleType: "HEADING_2" }),
+          createMockParagraph({ text: `Content ${documentId}` }),
+        ])
+      );
+    });
+  }
+
+  it("should list every page of the folder and parse each document", async () => {
+    // Arrange
+    const fetchMock = createDriveFetch();
+
+    // Act
+    const entries = await getEdgeParsedCollection("folder-1", schema, {
+      accessToken: "token",
+      fetch: fetchMock,
+    });
+
+    // Assert
+    expect(entries).toEqual([
+      { ...files[0], data: { Body: "Content 1" } },
+      { ...files[1], data: { Body: "Content 2" } },
+    ]);
+    const listUrl = new URL(String(fetchMock.mock.calls[0]?.[0]));
+    expect(listUrl.searchParams.get("q")).toBe(buildFolderQuery("folder-1"));
+    expect(listUrl.searchParams.get("orderBy")).toBe("modifiedTime desc");
+  });
+
+  it("should apply the name pattern and report failed documents", async () => {
+    // Arrange
+    const fetchMock = createDriveFetch("1");
+
+    // Act
+    const promise = getEdgeParsedCollection("folder-1", schema, {
+      accessToken: "token",
+      fetch: fetchMock,
+      namePattern: /^Post:/,
+    });
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsNotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
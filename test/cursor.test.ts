@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach } from "vitest";
 import type { docs_v1 } from "googleapis";
 import { ParseSchema } from "../src/types";
 import { ParagraphCursor, getParagraph } from "../src/cursor";
-import { createMockParagraph } from "./helpers/factories";
+import { createMockParagraph, createMockTable } from "./helpers/factories";
 
 // ======================================================================
 // 1. Helper Function: getParagraph
@@ -299,3 +299,38 @@ describe("ParagraphCursor - Context Analysis", () => {
     });
   });
 });
+
+// ======================================================================
+// 4. Structural Elements (Tables & Non-Paragraph Content)
+// ======================================================================
+/**
+ * Verifies that a cursor created from raw structural elements exposes tables
+ * while treating them as empty lines for paragraph-based parsing.
+ */
+describe("ParagraphCursor - Structural Elements", () => {
+  const dummySchema: ParseSchema = { sections: [] };
+
+  it("should expose tables via getCurrentTable and skip them as paragraphs", () => {
+    // Arrange
+    const tableElement = createMockTable([["A", "B"]]);
+    const cursor = ParagraphCursor.fromStructuralElements(
+      [tableElement, { sectionBreak: {} }, createMockParagraph({ text: "After" })],
+      dummySchema
+    );
+
+    // Act & Assert
+    expect(cursor.getCurrentTable()).toBe(tableElement.table);
+    expect(cursor.getCurrentParagraph()).toBeNull();
+    expect(cursor.getNextParagraph()).toBeNull();
+    expect(cursor.getCurrentTable()).toBeNull();
+    expect(cursor.getNextParagraph()?.text).toBe("After");
+    expect(cursor.getCurrentTable()).toBeNull();
+  });
+
+  it("should return null from getCurrentTable at the end of the document", () => {
+    const cursor = ParagraphCursor.fromStructuralElements([], dummySchema);
+
+    expect(cursor.isEndOfDocument()).toBe(true);
+    expect(cursor.getCurrentTable()).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import { ParseSchema } from "../src/types";
+import { parseDocument } from "../src/document";
+import { collectMissingSections } from "../src/diagnostics";
+import { MissingSectionError } from "../src/errors";
+import {
+  createMockDocument,
+  createMockParagraph,
+  createMockTable,
+} from "./helpers/factories";
+
+// ======================================================================
+// 1. Helper Function: collectMissingSections
+// ======================================================================
+describe("collectMissingSections", () => {
+  const schema: ParseSchema = {
+    sections: [
+      { title: { name: "Experience", namedStyleType: "HEADING_2" } },
+      { title: { name: "Skills", namedStyleType: "HEADING_2" } },
+    ],
+  };
+
+  it("should report sections that were not found", () => {
+    // Act
+    const result = collectMissingSections([], schema, ["Skills"]);
+
+    // Assert
+    expect(result).toEqual([
+      {
+        code: "missing-section",
+        message: 'Section "Experience" (HEADING_2) was not found.',
+        section: "Experience",
+      },
+    ]);
+  });
+
+  it("should report headings with a similar text or a matching text but another style", () => {
+    // Arrange
+    const elements = [
+      createMockParagraph({ text: "Experiance", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "experience", namedStyleType: "HEADING_3" }),
+      createMockParagraph({ text: "Education", namedStyleType: "HEADING_2" }),
+    ];
+
+    // Act
+    const result = collectMissingSections(elements, schema, ["Skills"]);
+
+    // Assert
+    expect(result).toEqual([
+      expect.objectContaining({ code: "missing-section", section: "Experience" }),
+      expect.objectContaining({
+        code: "near-match",
+        index: 0,
+        text: "Experiance",
+        section: "Experience",
+      }),
+      expect.objectContaining({
+        code: "near-match",
+        index: 1,
+        text: "experience",
+        message: expect.stringContaining("HEADING_3"),
+      }),
+    ]);
+  });
+
+  it("should compare headings with aliases, using the title's normalization", () => {
+    // Arrange
+    const aliasSchema: ParseSchema = {
+      sections: [
+        {
+          title: {
+            name: "Experience",
+            namedStyleType: "HEADING_2",
+            aliases: ["Work History"],
+            normalize: true,
+          },
+        },
+      ],
+    };
+    const elements = [
+      createMockParagraph({ text: "Work Histroy:", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "💼 Work History", namedStyleType: "HEADING_3" }),
+    ];
+
+    // Act
+    const result = collectMissingSections(elements, aliasSchema, []);
+
+    // Assert
+    expect(result).toEqual([
+      expect.objectContaining({ code: "missing-section" }),
+      expect.objectContaining({ code: "near-match", index: 0 }),
+      expect.objectContaining({
+        code: "near-match",
+        index: 1,
+        message: expect.stringContaining("HEADING_3"),
+      }),
+    ]);
+  });
+});
+
+// ======================================================================
+// 2. Integration: parseDocument with diagnostics
+// ======================================================================
+describe("parseDocument - diagnostics", () => {
+  it("should return the plain result when diagnostics are not requested", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "About", namedStyleType: "HEADING_2" } }],
+    };
+    const doc = createMockDocument([
+      createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Hello" }),
+    ]);
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result).toEqual({ About: "Hello" });
+  });
+
+  it("should report orphan tree text and ignored tables with their element index and section", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        {
+          title: { name: "Jobs", namedStyleType: "HEADING_2" },
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_3" },
+              content: { kind: "list" },
+            },
+          },
+        },
+        {
+          title: { name: "Skills", namedStyleType: "HEADING_2" },
+          content: { kind: "list" },
+        },
+      ],
+    };
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Jobs", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Intro before the first job" }),
+      createMockParagraph({ text: "Engineer", namedStyleType: "HEADING_3" }),
+      createMockParagraph({ text: "Built APIs" }),
+      createMockParagraph({ text: "Skills", namedStyleType: "HEADING_2" }),
+      createMockTable([["Go"]]),
+      createMockParagraph({ text: "React" }),
+    ]);
+
+    // Act
+    const { result, diagnostics } = parseDocument(doc, schema, {
+      diagnostics: true,
+    });
+
+    // Assert
+    expect(result).toEqual({
+      Jobs: [{ title: "Engineer", content: [["Built APIs"]] }],
+      Skills: [["React"]],
+    });
+    expect(diagnostics).toEqual([
+      {
+        code: "orphan-paragraph",
+        message: expect.any(String),
+        index: 1,
+        text: "Intro before the first job",
+        section: "Jobs",
+      },
+      {
+        code: "ignored-element",
+        message: expect.stringContaining("table"),
+        index: 5,
+        section: "Skills",
+      },
+    ]);
+  });
+
+  it("should report missing sections with their near matches", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "Skills", namedStyleType: "HEADING_2" } }],
+    };
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Skils", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Go" }),
+    ]);
+
+    // Act
+    const { result, diagnostics } = parseDocument(doc, schema, {
+      diagnostics: true,
+    });
+
+    // Assert
+    expect(result).toEqual({});
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "missing-section",
+      "near-match",
+    ]);
+  });
+
+  it("should report a missing required section instead of throwing", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        { title: { name: "About", namedStyleType: "HEADING_2" } },
+        {
+          title: { name: "Skills", namedStyleType: "HEADING_2" },
+          required: true,
+        },
+      ],
+    };
+    const doc = createMockDocument([
+      createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Hello" }),
+    ]);
+
+    // Act
+    const { result, diagnostics } = parseDocument(doc, schema, {
+      diagnostics: true,
+    });
+
+    // Assert
+    expect(result).toEqual({ About: "Hello" });
+    expect(diagnostics).toEqual([
+      {
+        code: "missing-section",
+        message: 'Required section "Skills" (HEADING_2) was not found.',
+        section: "Skills",
+      },
+    ]);
+    expect(() => parseDocument(doc, schema)).toThrow(MissingSectionError);
+  });
+});
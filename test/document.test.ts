@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { createMockParagraph, createMockDocument } from "./helpers/factories";
+import { ParseSchema } from "../src/types";
+import { parseDocument } from "../src/document";
+import { parseDocument as parseEdgeDocument } from "../src/edge";
+import type { DocsDocument } from "../src/edge/types";
+import { MissingSectionError } from "../src/errors";
+
+// ======================================================================
+// 1. Offline Parsing: parseDocument
+// ======================================================================
+/**
+ * Verifies that already-fetched documents can be parsed directly,
+ * without authentication or any network access.
+ */
+describe("parseDocument", () => {
+  const schema = {
+    sections: [
+      { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+      {
+        title: { name: "Skills", namedStyleType: "HEADING_1" },
+        content: { kind: "list", delimiter: ",", isFlatten: true },
+      },
+    ],
+  } as const satisfies ParseSchema;
+
+  it("should parse a googleapis document object according to the schema", () => {
+    // Arrange
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Profile", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "Frontend Developer." }),
+      createMockParagraph({ text: "Skills", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "React, TypeScript" }),
+    ]);
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result).toEqual({
+      Profile: "Frontend Developer.",
+      Skills: ["React", "TypeScript"],
+    });
+  });
+
+  it("should return an empty object for a document without a body", () => {
+    // Act
+    const result = parseDocument({}, schema);
+
+    // Assert
+    expect(result).toEqual({});
+  });
+
+  it("should accept a plain DocsDocument through the Edge entry point", () => {
+    // Arrange
+    const doc: DocsDocument = {
+      body: {
+        content: [
+          {
+            paragraph: {
+              elements: [{ textRun: { content: "Profile\n" } }],
+              paragraphStyle: { namedStyleType: "HEADING_1" },
+            },
+          },
+          {
+            paragraph: {
+              elements: [{ textRun: { content: "Edge ready.\n" } }],
+              paragraphStyle: { namedStyleType: "NORMAL_TEXT" },
+            },
+          },
+        ],
+      },
+    };
+
+    // Act
+    const result = parseEdgeDocument(doc, schema);
+
+    // Assert
+    expect(result).toEqual({ Profile: "Edge ready." });
+  });
+});
+
+// ======================================================================
+// 2. Section Presence: required & default
+// ======================================================================
+describe("parseDocument - required and default sections", () => {
+  const doc = createMockDocument([
+    createMockParagraph({ text: "Profile", namedStyleType: "HEADING_1" }),
+    createMockParagraph({ text: "Hello" }),
+  ]);
+
+  it("should omit missing optional sections and fill in defaults", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+        { title: { name: "Summary", namedStyleType: "HEADING_1" } },
+        {
+          title: { name: "Skills", namedStyleType: "HEADING_1" },
+          content: { kind: "list", isFlatten: true },
+          default: [],
+        },
+      ],
+    } as const satisfies ParseSchema;
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result).toEqual({ Profile: "Hello", Skills: [] });
+    expect(result).not.toHaveProperty("Summary");
+  });
+
+  it("should throw a MissingSectionError for a missing required section", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+        {
+          title: { name: "Contact", namedStyleType: "HEADING_1" },
+          required: true,
+          default: "ignored",
+        },
+      ],
+    };
+
+    // Act & Assert
+    expect(() => parseDocument(doc, schema)).toThrow(MissingSectionError);
+    expect(() => parseDocument(doc, schema)).toThrow(
+      'Required section "Contact" was not found in the document.'
+    );
+  });
+
+  it("should not throw for a required section that is present but empty", () => {
+    // Arrange
+    const emptySectionDoc = createMockDocument([
+      createMockParagraph({ text: "Profile", namedStyleType: "HEADING_1" }),
+    ]);
+    const schema: ParseSchema = {
+      sections: [
+        {
+          title: { name: "Profile", namedStyleType: "HEADING_1" },
+          required: true,
+        },
+      ],
+    };
+
+    // Act
+    const result = parseDocument(emptySectionDoc, schema);
+
+    // Assert
+    expect(result).toEqual({ Profile: "" });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ParseSchema } from "../src/types";
+import { getParsedCollection } from "../src/drive";
+import { DocsPermissionError } from "../src/errors";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+// ======================================================================
+// Mocks: googleapis clients
+// ======================================================================
+
+const mockFilesList = vi.fn();
+const mockDocsGet = vi.fn();
+const mockCreateDocsClient = vi.fn();
+const sharedAuthClient = { name: "shared-auth" };
+
+vi.mock("../src/auth", () => {
+  return {
+    createDriveAuthClient: () => sharedAuthClient,
+    createDriveClient: () => ({ files: { list: mockFilesList } }),
+    createDocsClient: (...args: unknown[]) => mockCreateDocsClient(...args),
+  };
+});
+
+// ======================================================================
+// 1. Public API: getParsedCollection
+// ======================================================================
+describe("getParsedCollection", () => {
+  const schema = {
+    sections: [{ title: { name: "Body", namedStyleType: "HEADING_2" } }],
+  } as const satisfies ParseSchema;
+
+  beforeEach(() => {
+    mockFilesList.mockReset();
+    mockDocsGet.mockReset();
+    mockCreateDocsClient.mockReset();
+    mockCreateDocsClient.mockReturnValue({ documents: { get: mockDocsGet } });
+    mockDocsGet.mockImplementation(async ({ documentId }) => ({
+      data: createMockDocument([
+        createMockParagraph({ text: "Body", namedStyleType: "HEADING_2" }),
+        createMockParagraph({ text: `Content ${documentId}` }),
+      ]),
+    }));
+  });
+
+  it("should list the folder with its filters and parse every document", async () => {
+    // Arrange
+    mockFilesList
+      .mockResolvedValueOnce({
+        data: {
+          files: [{ id: "a", name: "First", modifiedTime: "2024-05-02T00:00:00Z" }],
+          nextPageToken: "next",
+        },
+      })
+      .mockResolvedValueOnce({
+        data: {
+          files: [{ id: "b", name: "Second", modifiedTime: "2024-05-01T00:00:00Z" }],
+        },
+      });
+
+    // Act
+    const entries = await getParsedCollection("folder-1", schema, {
+      modifiedAfter: "2024-01-01T00:00:00Z",
+    });
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        id: "a",
+        name: "First",
+        modifiedTime: "2024-05-02T00:00:00Z",
+        data: { Body: "Content a" },
+      },
+      {
+        id: "b",
+        name: "Second",
+        modifiedTime: "2024-05-01T00:00:00Z",
+        data: { Body: "Content b" },
+      },
+    ]);
+    expect(mockFilesList).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        q: expect.stringContaining("modifiedTime > '2024-01-01T00:00:00.000Z'"),
+        pageToken: "next",
+      }),
+      { retry: false }
+    );
+    expect(mockCreateDocsClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authClient: sharedAuthClient })
+    );
+  });
+
+  it("should throw a typed error when the folder cannot be listed", async () => {
+    // Arrange
+    mockFilesList.mockRejectedValue(
+      Object.assign(new Error("Insufficient permissions"), { status: 403 })
+    );
+
+    // Act
+    const promise = getParsedCollection("private-folder", schema);
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsPermissionError);
+    await expect(promise).rejects.toThrow("Google Drive API call failed.");
+    expect(mockDocsGet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createMemoryTokenStore,
+  getCachedAccessToken,
+  getTokenCacheKey,
+} from "../../src/edge/tokenCache";
+import type { TokenStore } from "../../src/edge/types";
+
+// ======================================================================
+// 1. Core Logic: getCachedAccessToken
+// ======================================================================
+/**
+ * Verifies token reuse, expiry handling, refresh deduplication,
+ * and integration with external key-value stores.
+ */
+describe("getCachedAccessToken", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should reuse a cached token until shortly before it expires", async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const store = createMemoryTokenStore();
+    const requestToken = vi
+      .fn()
+      .mockResolvedValueOnce({ accessToken: "token-1", expiresIn: 3600 })
+      .mockResolvedValueOnce({ accessToken: "token-2", expiresIn: 3600 });
+
+    // Act
+    const first = await getCachedAccessToken("key", requestToken, store);
+    vi.advanceTimersByTime(3000 * 1000);
+    const second = await getCachedAccessToken("key", requestToken, store);
+    vi.advanceTimersByTime(550 * 1000); // within the expiry margin
+    const third = await getCachedAccessToken("key", requestToken, store);
+
+    // Assert
+    expect([first, second, third]).toEqual(["token-1", "token-1", "token-2"]);
+    expect(requestToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("should share a single token request between concurrent callers", async () => {
+    // Arrange
+    const store = createMemoryTokenStore();
+    const requestToken = vi
+      .fn()
+      .mockResolvedValue({ accessToken: "shared", expiresIn: 3600 });
+
+    // Act
+    const tokens = await Promise.all([
+      getCachedAccessToken("concurrent", requestToken, store),
+      getCachedAccessToken("concurrent", requestToken, store),
+      getCachedAccessToken("concurrent", requestToken, store),
+    ]);
+
+    // Assert
+    expect(tokens).toEqual(["shared", "shared", "shared"]);
+    expect(requestToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("should read from and write to an external async store", async () => {
+    // Arrange
+    const kv = new Map<string, string>();
+    const store: TokenStore = {
+      get: vi.fn(async (key: string) => kv.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string) => {
+        kv.set(key, value);
+      }),
+    };
+    const requestToken = vi
+      .fn()
+      .mockResolvedValue({ accessToken: "kv-token", expiresIn: 1800 });
+
+    // Act
+    await getCachedAccessToken("kv", requestToken, store);
+    const reused = await getCachedAccessToken("kv", requestToken, store);
+
+    // Assert
+    expect(reused).toBe("kv-token");
+    expect(requestToken).toHaveBeenCalledTimes(1);
+    expect(store.set).toHaveBeenCalledWith("kv", expect.any(String), 1800);
+  });
+
+  it("should ignore malformed store entries and request a new token", async () => {
+    // Arrange
+    const store: TokenStore = { get: () => "not-json", set: vi.fn() };
+    const requestToken = vi
+      .fn()
+      .mockResolvedValue({ accessToken: "fresh", expiresIn: 3600 });
+
+    // Act
+    const token = await getCachedAccessToken("broken", requestToken, store);
+
+    // Assert
+    expect(token).toBe("fresh");
+  });
+
+  it("should not cache failed token requests", async () => {
+    // Arrange
+    const store = createMemoryTokenStore();
+    const requestToken = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("quota exceeded"))
+      .mockResolvedValueOnce({ accessToken: "retry", expiresIn: 3600 });
+
+    // Act & Assert
+    await expect(
+      getCachedAccessToken("failing", requestToken, store)
+    ).rejects.toThrow("quota exceeded");
+    await expect(
+      getCachedAccessToken("failing", requestToken, store)
+    ).resolves.toBe("retry");
+  });
+
+  it("should let each caller abort its own wait without failing the shared request", async () => {
+    // Arrange
+    const store = createMemoryTokenStore();
+    let resolveToken: (value: { accessToken: string; expiresIn: number }) => void =
+      () => {};
+    const requestToken = vi.fn(
+      () => new Promise<{ accessToken: string; expiresIn: number }>((resolve) => {
+        resolveToken = resolve;
+      })
+    );
+    const controller = new AbortController();
+
+    // Act
+    const aborted = getCachedAccessToken("shared", requestToken, store, controller.signal);
+    const waiting = getCachedAccessToken("shared", requestToken, store);
+    await vi.waitFor(() => expect(requestToken).toHaveBeenCalled());
+    controller.abort(new Error("caller gave up"));
+    resolveToken({ accessToken: "shared-token", expiresIn: 3600 });
+
+    // Assert
+    await expect(aborted).rejects.toThrow("caller gave up");
+    await expect(waiting).resolves.toBe("shared-token");
+    expect(requestToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not share requests between different stores", async () => {
+    // Arrange
+    const requestToken = vi
+      .fn()
+      .mockResolvedValueOnce({ accessToken: "first", expiresIn: 3600 })
+      .mockResolvedValueOnce({ accessToken: "second", expiresIn: 3600 });
+
+    // Act
+    const tokens = await Promise.all([
+      getCachedAccessToken("per-store", requestToken, createMemoryTokenStore()),
+      getCachedAccessToken("per-store", requestToken, createMemoryTokenStore()),
+    ]);
+
+    // Assert
+    expect(tokens).toEqual(["first", "second"]);
+  });
+});
+
+// ======================================================================
+// 2. Helper: getTokenCacheKey
+// ======================================================================
+describe("getTokenCacheKey", () => {
+  it("should distinguish service accounts and scopes", () => {
+    // Act
+    const a = getTokenCacheKey("a@example.com", "scope-1");
+    const b = getTokenCacheKey("b@example.com", "scope-1");
+    const c = getTokenCacheKey("a@example.com", "scope-2");
+
+    // Assert
+    expect(new Set([a, b, c]).size).toBe(3);
+  });
+});
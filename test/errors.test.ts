@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest";
+import { ParseSchema } from "../src/types";
+import {
+  DocsApiError,
+  DocsAuthError,
+  DocsNotFoundError,
+  DocsPermissionError,
+  DocsRateLimitError,
+  MissingSectionError,
+  ParseError,
+  SchemaError,
+  SchemaValidationError,
+  getErrorStatus,
+  toDocsApiError,
+  toParseError,
+} from "../src/errors";
+import { getParsedDocument as getEdgeParsedDocument } from "../src/edge";
+
+// ======================================================================
+// 1. Helper Function: getErrorStatus
+// ======================================================================
+describe("getErrorStatus", () => {
+  it("should read the status from status, response.status, or a numeric code", () => {
+    // Act & Assert
+    expect(getErrorStatus({ status: 404 })).toBe(404);
+    expect(getErrorStatus({ response: { status: 403 } })).toBe(403);
+    expect(getErrorStatus({ code: "429" })).toBe(429);
+    expect(getErrorStatus({ code: "ECONNRESET" })).toBeNull();
+    expect(getErrorStatus("Not Found")).toBeNull();
+  });
+});
+
+// ======================================================================
+// 2. Helper Function: toDocsApiError
+// ======================================================================
+describe("toDocsApiError", () => {
+  it("should pick the subclass matching the HTTP status", () => {
+    // Act & Assert
+    expect(toDocsApiError({ status: 401 }, "doc")).toBeInstanceOf(DocsAuthError);
+    expect(toDocsApiError({ status: 403 }, "doc")).toBeInstanceOf(
+      DocsPermissionError
+    );
+    expect(toDocsApiError({ status: 404 }, "doc")).toBeInstanceOf(
+      DocsNotFoundError
+    );
+    expect(toDocsApiError({ status: 429 }, "doc")).toBeInstanceOf(
+      DocsRateLimitError
+    );
+    expect(toDocsApiError({ status: 500 }, "doc").constructor).toBe(DocsApiError);
+  });
+
+  it("should carry the status, document ID, and cause", () => {
+    // Arrange
+    const cause = Object.assign(new Error("Requested entity was not found."), {
+      status: 404,
+    });
+
+    // Act
+    const error = toDocsApiError(cause, "missing-doc");
+
+    // Assert
+    expect(error).toMatchObject({
+      name: "DocsNotFoundError",
+      status: 404,
+      documentId: "missing-doc",
+      cause,
+      message:
+        "Google Docs API call failed. Check Doc ID and Service Account permissions. Original error: Requested entity was not found.",
+    });
+  });
+
+  it("should keep authentication failures as DocsAuthError regardless of status", () => {
+    // Act
+    const error = toDocsApiError(
+      new DocsAuthError("Failed to get access token", { status: 400 }),
+      "doc"
+    );
+
+    // Assert
+    expect(error).toBeInstanceOf(DocsAuthError);
+    expect(error.status).toBe(400);
+  });
+});
+
+// ======================================================================
+// 3. Helper Function: toParseError
+// ======================================================================
+describe("toParseError", () => {
+  it("should return parse and schema errors as-is", () => {
+    // Arrange
+    const missing = new MissingSectionError("Skills");
+    const invalid = new SchemaValidationError([]);
+
+    // Act & Assert
+    expect(toParseError(missing, "doc")).toBe(missing);
+    expect(toParseError(invalid, "doc")).toBe(invalid);
+    expect(missing).toBeInstanceOf(ParseError);
+    expect(invalid).toBeInstanceOf(SchemaError);
+  });
+
+  it("should wrap unexpected errors with the document ID and cause", () => {
+    // Arrange
+    const cause = new TypeError("boom");
+
+    // Act
+    const error = toParseError(cause, "doc-1");
+
+    // Assert
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({
+      message: 'Failed to parse document "doc-1": boom',
+      documentId: "doc-1",
+      cause,
+    });
+  });
+});
+
+// ======================================================================
+// 4. Integration: Edge getParsedDocument
+// ======================================================================
+describe("getParsedDocument (edge) - typed errors", () => {
+  const schema: ParseSchema = { sections: [] };
+
+  it("should throw DocsPermissionError for a 403 response", async () => {
+    // Arrange
+    const fetchMock = vi.fn(
+      async () => new Response("The caller does not have permission", { status: 403 })
+    );
+
+    // Act
+    const promise = getEdgeParsedDocument("private-doc", schema, {
+      accessToken: "token",
+      fetch: fetchMock,
+    });
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsPermissionError);
+    await expect(promise).rejects.toMatchObject({
+      status: 403,
+      documentId: "private-doc",
+    });
+  });
+
+  it("should throw DocsAuthError when the token exchange fails", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response("invalid_grant", { status: 400 }));
+
+    // Act
+    const promise = getEdgeParsedDocument("doc", schema, {
+      credentials: "not json",
+      fetch: fetchMock,
+    });
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsAuthError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
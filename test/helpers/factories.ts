@@ -10,16 +10,20 @@ import type { docs_v1 } from "googleapis";
  * @param {string} [params.text] - The text content of the paragraph.
  * @param {string} [params.namedStyleType] - The named style type (e.g., "HEADING_1", "NORMAL_TEXT").
  * @param {boolean} [params.bullet] - Whether this paragraph should be treated as a bulleted list item.
+ * @param {string} [params.listId] - The bullet's list ID (only used when `bullet` is true).
+ * @param {number} [params.nestingLevel] - The bullet's nesting level (only used when `bullet` is true).
  * @returns {docs_v1.Schema$StructuralElement} A structural element that is guaranteed to contain a `paragraph` property.
  */
 export function createMockParagraph(params: {
   text?: string;
   namedStyleType?: string; // "HEADING_1" | "HEADING_2" | ... | "NORMAL_TEXT"
   bullet?: boolean;
+  listId?: string;
+  nestingLevel?: number;
 }): docs_v1.Schema$StructuralElement & {
   paragraph: docs_v1.Schema$Paragraph;
 } {
-  const { text, namedStyleType, bullet = false } = params;
+  const { text, namedStyleType, bullet = false, listId, nestingLevel } = params;
 
   const paragraph: docs_v1.Schema$Paragraph = {
     elements: text
@@ -35,12 +39,31 @@ export function createMockParagraph(params: {
   };
 
   if (bullet) {
-    paragraph.bullet = {};
+    paragraph.bullet = {
+      ...(listId !== undefined && { listId }),
+      ...(nestingLevel !== undefined && { nestingLevel }),
+    };
   }
 
   return { paragraph };
 }
 
+/**
+ * Creates a bulleted paragraph element for the given list and nesting level.
+ *
+ * @param text - The text content of the list item.
+ * @param listId - The bullet's list ID.
+ * @param nestingLevel - The bullet's nesting level (defaults to 0).
+ * @returns A structural element containing a bulleted `paragraph`.
+ */
+export function bulletItem(
+  text: string,
+  listId: string,
+  nestingLevel = 0
+): docs_v1.Schema$StructuralElement & { paragraph: docs_v1.Schema$Paragraph } {
+  return createMockParagraph({ text, bullet: true, listId, nestingLevel });
+}
+
 /**
  * Creates a mock Google Docs `Document` object populated with the provided paragraphs.
  *
@@ -59,3 +82,28 @@ export function createMockDocument(
     },
   };
 }
+
+/**
+ * Creates a mock `StructuralElement` containing a `Table` built from a 2D array of cell texts.
+ *
+ * Each cell is wrapped in a single `NORMAL_TEXT` paragraph, mirroring the API structure
+ * of `tableRows[].tableCells[].content[]`.
+ *
+ * @param {string[][]} rows - The cell texts, row by row.
+ * @returns {docs_v1.Schema$StructuralElement} A structural element that is guaranteed to contain a `table` property.
+ */
+export function createMockTable(rows: string[][]): docs_v1.Schema$StructuralElement & {
+  table: docs_v1.Schema$Table;
+} {
+  return {
+    table: {
+      rows: rows.length,
+      columns: rows[0]?.length ?? 0,
+      tableRows: rows.map((cells) => ({
+        tableCells: cells.map((text) => ({
+          content: [createMockParagraph({ text, namedStyleType: "NORMAL_TEXT" })],
+        })),
+      })),
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import type { docs_v1 } from "googleapis";
+import { ParseSchema } from "../src/types";
+import { ParagraphCursor } from "../src/cursor";
+import { parseHtmlSection, renderInlineHtml, toHtml } from "../src/html";
+import { parseDocument } from "../src/document";
+import {
+  bulletItem,
+  createMockDocument,
+  createMockParagraph,
+  createMockTable,
+} from "./helpers/factories";
+
+/**
+ * List definitions where "ol" is numbered and "ul" is bulleted.
+ */
+const lists: Record<string, docs_v1.Schema$List> = {
+  ol: { listProperties: { nestingLevels: [{ glyphType: "DECIMAL" }] } },
+  ul: { listProperties: { nestingLevels: [{ glyphSymbol: "●" }] } },
+};
+
+// ======================================================================
+// 1. Inline Rendering: renderInlineHtml
+// ======================================================================
+describe("renderInlineHtml", () => {
+  it("should render inline styles as semantic elements", () => {
+    // Act
+    const result = renderInlineHtml([
+      { text: "bold", bold: true },
+      { text: " " },
+      { text: "it", italic: true },
+      { text: " " },
+      { text: "u", underline: true },
+      { text: " " },
+      { text: "x", strikethrough: true },
+      { text: " " },
+      { text: "npm", code: true },
+      { text: " " },
+      { text: "docs", underline: true, link: "https://example.com/?a=1&b=2" },
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      '<strong>bold</strong> <em>it</em> <u>u</u> <s>x</s> <code>npm</code> <a href="https://example.com/?a=1&amp;b=2">docs</a>'
+    );
+  });
+
+  it("should escape text and convert vertical tabs to line breaks", () => {
+    // Act
+    const result = renderInlineHtml([
+      { text: '<script>alert("x")</script>\u000bnext' },
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      "&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;<br>next"
+    );
+  });
+
+  it("should drop links with unsafe URL schemes", () => {
+    // Act
+    const result = renderInlineHtml([
+      { text: "a", link: "javascript:alert(1)" },
+      { text: "b", link: "java\tscript:alert(1)" },
+      { text: "c", link: "/relative" },
+      { text: "d", link: "mailto:me@example.com" },
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      'ab<a href="/relative">c</a><a href="mailto:me@example.com">d</a>'
+    );
+  });
+
+  it("should add configured class names", () => {
+    // Act
+    const result = renderInlineHtml(
+      [{ text: "docs", bold: true, link: "https://example.com" }],
+      { classNames: { a: "link", strong: 'x" onclick="y' } }
+    );
+
+    // Assert
+    expect(result).toBe(
+      '<a href="https://example.com" class="link"><strong class="x&quot; onclick=&quot;y">docs</strong></a>'
+    );
+  });
+});
+
+// ======================================================================
+// 2. Document Rendering: toHtml
+// ======================================================================
+describe("toHtml", () => {
+  it("should render headings, paragraphs, nested lists, and tables", () => {
+    // Arrange
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Guide", namedStyleType: "TITLE" }),
+      createMockParagraph({ text: "Setup", namedStyleType: "HEADING_3" }),
+      createMockParagraph({ text: "Intro" }),
+      bulletItem("Install", "ol"),
+      bulletItem("Detail", "ol", 1),
+      bulletItem("Note", "ul"),
+      createMockTable([["A", "B"]]),
+    ]);
+    doc.lists = lists;
+
+    // Act
+    const result = toHtml(doc, { classNames: { p: "text", li: "item" } });
+
+    // Assert
+    expect(result).toBe(
+      [
+        "<h1>Guide</h1>",
+        "<h3>Setup</h3>",
+        '<p class="text">Intro</p>',
+        '<ol><li class="item">Install<ul><li class="item">Detail</li></ul></li></ol>',
+        '<ul><li class="item">Note</li></ul>',
+        "<table><tbody><tr><td>A</td><td>B</td></tr></tbody></table>",
+      ].join("\n")
+    );
+  });
+});
+
+// ======================================================================
+// 3. Section Integration: parseHtmlSection
+// ======================================================================
+describe("parseHtmlSection", () => {
+  it("should stop at the same boundary as parseTextBlockSection", () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    const elements = [
+      createMockParagraph({ text: "Intro" }),
+      createMockParagraph({ text: "Next", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Excluded" }),
+    ];
+    const cursor = ParagraphCursor.fromStructuralElements(elements, schema);
+
+    // Act
+    const result = parseHtmlSection(cursor);
+
+    // Assert
+    expect(result).toBe("<p>Intro</p>");
+    expect(cursor.getCurrentParagraph()?.text).toBe("Next");
+  });
+
+  it("should be selectable per section with format: html", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "About", namedStyleType: "HEADING_2" },
+          content: { kind: "text", format: "html", classNames: { p: "lead" } },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Hello & welcome" }),
+      bulletItem("Point", "ol"),
+    ]);
+    doc.lists = lists;
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result.About).toBe(
+      '<p class="lead">Hello &amp; welcome</p>\n<ol><li>Point</li></ol>'
+    );
+  });
+});
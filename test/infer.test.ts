@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import { inferSchema, formatSchemaModule } from "../src/infer";
+import { parseDocument } from "../src/document";
+import { validateSchema } from "../src/validate";
+import {
+  createMockDocument,
+  createMockParagraph,
+  createMockTable,
+} from "./helpers/factories";
+
+const heading = (text: string, level = 1) =>
+  createMockParagraph({ text, namedStyleType: `HEADING_${level}` });
+const text = (value: string) =>
+  createMockParagraph({ text: value, namedStyleType: "NORMAL_TEXT" });
+const bullet = (value: string) =>
+  createMockParagraph({ text: value, namedStyleType: "NORMAL_TEXT", bullet: true });
+
+// ======================================================================
+// 1. Core Logic: inferSchema
+// ======================================================================
+describe("inferSchema", () => {
+  it("should use the highest heading level as sections and infer their content", () => {
+    // Arrange
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Resume", namedStyleType: "TITLE" }),
+      heading("Profile", 2),
+      text("Software engineer based in Seoul."),
+      heading("Skills", 2),
+      bullet("TypeScript, Go"),
+      bullet("Kubernetes"),
+      heading("Languages", 2),
+      bullet("Korean: Native"),
+      bullet("English: Fluent"),
+      heading("Projects", 2),
+      createMockTable([
+        ["Name", "Year"],
+        ["Parser", "2024"],
+      ]),
+    ]);
+
+    // Act
+    const schema = inferSchema(doc);
+
+    // Assert
+    expect(schema).toEqual({
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_2" } },
+        {
+          title: { name: "Skills", namedStyleType: "HEADING_2" },
+          content: { kind: "list", isFlatten: true },
+        },
+        {
+          title: { name: "Languages", namedStyleType: "HEADING_2" },
+          content: { kind: "list", keyDelimiter: ":" },
+        },
+        {
+          title: { name: "Projects", namedStyleType: "HEADING_2" },
+          content: { kind: "table", header: true },
+        },
+      ],
+    });
+  });
+
+  it("should turn repeated sub-headings into tree nodes with fielded titles", () => {
+    // Arrange
+    const doc = createMockDocument([
+      heading("Experience"),
+      heading("Tech Corp | Backend Lead", 2),
+      bullet("Designed microservices architecture"),
+      heading("Platform", 3),
+      bullet("Built the deploy pipeline"),
+      heading("Startup Inc | Full Stack", 2),
+      heading("MVP", 3),
+      bullet("Built MVP in 3 months"),
+    ]);
+
+    // Act
+    const schema = inferSchema(doc);
+
+    // Assert
+    expect(schema.sections[0]?.content).toEqual({
+      kind: "tree",
+      node: {
+        title: {
+          namedStyleType: "HEADING_2",
+          delimiter: "|",
+          keys: ["field1", "field2"],
+        },
+        content: {
+          kind: "tree",
+          node: {
+            title: { namedStyleType: "HEADING_3" },
+            content: { kind: "list", isFlatten: true },
+          },
+        },
+      },
+    });
+  });
+
+  it("should keep bulleted sentences as paragraphs instead of splitting them on commas", () => {
+    // Arrange
+    const doc = createMockDocument([
+      heading("Highlights"),
+      bullet("Led the migration to TypeScript, cutting runtime errors in half"),
+      bullet("Mentored three junior engineers"),
+    ]);
+
+    // Act
+    const schema = inferSchema(doc);
+
+    // Assert
+    expect(schema.sections[0]?.content).toEqual({
+      kind: "text",
+      paragraphs: true,
+    });
+  });
+
+  it("should keep the first of repeated headings and ignore documents without headings", () => {
+    // Arrange
+    const repeated = createMockDocument([
+      heading("Notes"),
+      text("First"),
+      heading("Notes"),
+      bullet("Second"),
+    ]);
+    const plain = createMockDocument([text("Just text")]);
+
+    // Act & Assert
+    expect(inferSchema(repeated).sections).toHaveLength(1);
+    expect(inferSchema(plain)).toEqual({ sections: [] });
+  });
+
+  it("should infer a valid schema that parses the same document", () => {
+    // Arrange
+    const doc = createMockDocument([
+      heading("Profile"),
+      text("Engineer"),
+      heading("Experience"),
+      heading("Tech Corp | Lead", 2),
+      bullet("Designed services"),
+    ]);
+
+    // Act
+    const schema = inferSchema(doc);
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(validateSchema(schema).valid).toBe(true);
+    expect(result).toEqual({
+      Profile: "Engineer",
+      Experience: [
+        {
+          title: { field1: "Tech Corp", field2: "Lead" },
+          content: ["Designed services"],
+        },
+      ],
+    });
+  });
+});
+
+// ======================================================================
+// 2. Output: formatSchemaModule
+// ======================================================================
+describe("formatSchemaModule", () => {
+  it("should print a typed module, breaking values that do not fit on one line", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+        {
+          title: { name: "Work History", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: { title: { namedStyleType: "HEADING_2", keys: ["field1", "field2"] } },
+          },
+        },
+      ],
+    } as const;
+
+    // Act
+    const source = formatSchemaModule(schema, "resumeSchema");
+
+    // Assert
+    expect(source).toMatchInlineSnapshot(`
+      "import type { ParseSchema } from "@yuji-min/google-docs-parser";
+
+      export const resumeSchema = {
+        sections: [
+          { title: { name: "Profile", namedStyleType: "HEADING_1" } },
+          {
+            title: { name: "Work History", namedStyleType: "HEADING_1" },
+            content: {
+              kind: "tree",
+              node: { title: { namedStyleType: "HEADING_2", keys: ["field1", "field2"] } },
+            },
+          },
+        ],
+      } as const satisfies ParseSchema;
+      "
+    `);
+  });
+});
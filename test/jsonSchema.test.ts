@@ -0,0 +1,541 @@
+import { describe, it, expect } from "vitest";
+import { isDeepStrictEqual } from "node:util";
+import type { docs_v1 } from "googleapis";
+import { toJsonSchema, JSON_SCHEMA_DIALECT, JsonSchema } from "../src/jsonSchema";
+import { parseDocument } from "../src/document";
+import { ParseSchema } from "../src/types";
+import type { StandardSchemaV1 } from "../src/standardSchema";
+import { createMockDocument, createMockParagraph, createMockTable } from "./helpers/factories";
+
+/**
+ * Returns the JSON Schema of a single section named "S".
+ */
+function sectionSchema(section: Omit<ParseSchema["sections"][number], "title">) {
+  const schema = toJsonSchema({
+    sections: [{ title: { name: "S", namedStyleType: "HEADING_1" }, ...section }],
+  });
+  return (schema.properties as Record<string, unknown>).S;
+}
+
+// ======================================================================
+// 1. Document: toJsonSchema
+// ======================================================================
+describe("toJsonSchema", () => {
+  it("should describe each named section, requiring those with required or default", () => {
+    // Arrange
+    const parseSchema = {
+      sections: [
+        { title: { name: "Profile", namedStyleType: "HEADING_1" }, required: true },
+        { title: { name: "Bio", namedStyleType: "HEADING_1" }, default: "" },
+        { title: { name: "Hobbies", namedStyleType: "HEADING_1" } },
+        { title: { namedStyleType: "HEADING_1" } },
+      ],
+    } as const satisfies ParseSchema;
+
+    // Act
+    const schema = toJsonSchema(parseSchema);
+
+    // Assert
+    expect(schema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: "object",
+      properties: {
+        Profile: { type: "string" },
+        Bio: { anyOf: [{ type: "string" }, { const: "" }] },
+        Hobbies: { type: "string" },
+      },
+      required: ["Profile", "Bio"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should only include the shared definitions that are referenced", () => {
+    // Act
+    const schema = toJsonSchema({
+      sections: [
+        {
+          title: { name: "Notes", namedStyleType: "HEADING_1" },
+          content: { kind: "list", nested: true, richText: true },
+        },
+      ],
+    });
+
+    // Assert
+    expect(Object.keys(schema.$defs ?? {})).toEqual([
+      "RichText",
+      "RichNestedListItem",
+    ]);
+  });
+});
+
+// ======================================================================
+// 2. Section Kinds: text, list, table
+// ======================================================================
+describe("toJsonSchema section kinds", () => {
+  it("should describe text blocks by their output options", () => {
+    expect(sectionSchema({ content: { kind: "text", format: "html" } })).toEqual({
+      type: "string",
+    });
+    expect(sectionSchema({ content: { kind: "text", paragraphs: true } })).toEqual({
+      type: "array",
+      items: { type: "string" },
+    });
+    expect(sectionSchema({ content: { kind: "text", richText: true } })).toEqual({
+      $ref: "#/$defs/RichText",
+    });
+  });
+
+  it("should describe plain and flattened lists with coerced values", () => {
+    expect(sectionSchema({ content: { kind: "list" } })).toEqual({
+      type: "array",
+      items: { type: "array", items: { type: "string" } },
+    });
+    expect(
+      sectionSchema({ content: { kind: "list", isFlatten: true, coerce: "integer" } })
+    ).toEqual({ type: "array", items: { type: "integer" } });
+  });
+
+  it("should describe keyed lists, allowing lines without the key delimiter", () => {
+    // Act
+    const schema = sectionSchema({
+      content: { kind: "list", keyDelimiter: ":", coerce: { Year: "integer" } },
+    });
+
+    // Assert
+    const keyedItem = (key: unknown, value: unknown) => ({
+      type: "object",
+      properties: { key, value: { type: "array", items: value } },
+      required: ["key", "value"],
+      additionalProperties: false,
+    });
+    expect(schema).toEqual({
+      type: "array",
+      items: {
+        anyOf: [
+          keyedItem({ const: "Year" }, { type: "integer" }),
+          keyedItem({ type: "string", not: { enum: ["Year"] } }, { type: "string" }),
+          { type: "string" },
+        ],
+      },
+    });
+  });
+
+  it("should describe keys fields, allowing null for empty coerced fields", () => {
+    // Act
+    const schema = sectionSchema({
+      content: {
+        kind: "list",
+        keys: ["school", "year", "level", "site"],
+        delimiter: "|",
+        coerce: { year: "date", level: { enum: ["BSc", "MSc"] }, site: "url" },
+      },
+    });
+
+    // Assert
+    expect(schema).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          school: { type: "string" },
+          year: { type: ["string", "null"], format: "date-time" },
+          level: { enum: ["BSc", "MSc", null] },
+          site: { type: ["string", "null"], format: "uri" },
+        },
+        required: ["school", "year", "level", "site"],
+        additionalProperties: false,
+      },
+    });
+  });
+
+  it("should describe nested lists with recursive items", () => {
+    // Act
+    const schema = toJsonSchema({
+      sections: [
+        {
+          title: { name: "S", namedStyleType: "HEADING_1" },
+          content: { kind: "list", nested: true },
+        },
+      ],
+    });
+
+    // Assert
+    expect(schema.properties).toEqual({
+      S: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            listId: { type: ["string", "null"] },
+            bulleted: { type: "boolean" },
+            items: { type: "array", items: { $ref: "#/$defs/NestedListItem" } },
+          },
+          required: ["listId", "bulleted", "items"],
+          additionalProperties: false,
+        },
+      },
+    });
+    expect(schema.$defs?.NestedListItem).toMatchObject({
+      properties: {
+        text: { type: "string" },
+        children: { type: "array", items: { $ref: "#/$defs/NestedListItem" } },
+      },
+    });
+  });
+
+  it("should describe tables by keys, header, or rows", () => {
+    expect(
+      sectionSchema({ content: { kind: "table", header: true, coerce: { Age: "number" } } })
+    ).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { Age: { type: ["number", "null"] } },
+        additionalProperties: { type: "string" },
+      },
+    });
+    expect(sectionSchema({ content: { kind: "table", coerce: "boolean" } })).toEqual({
+      type: "array",
+      items: { type: "array", items: { type: ["boolean", "null"] } },
+    });
+  });
+});
+
+// ======================================================================
+// 3. Section Kinds: tree
+// ======================================================================
+describe("toJsonSchema trees", () => {
+  it("should describe nested nodes with parsed titles and detail lines", () => {
+    // Act
+    const schema = sectionSchema({
+      content: {
+        kind: "tree",
+        node: {
+          title: { namedStyleType: "HEADING_2", keys: ["company", "role"], delimiter: "|" },
+          required: true,
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_3", delimiter: "," },
+              content: { kind: "list" },
+            },
+          },
+        },
+      },
+    });
+
+    // Assert
+    expect(schema).toEqual({
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          title: {
+            type: "object",
+            properties: { company: { type: "string" }, role: { type: "string" } },
+            required: ["company", "role"],
+            additionalProperties: false,
+          },
+          content: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "array", items: { type: "string" } },
+                content: {
+                  type: "array",
+                  items: { type: "array", items: { type: "string" } },
+                },
+              },
+              required: ["title", "content"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["title", "content"],
+        additionalProperties: false,
+      },
+    });
+  });
+});
+
+// ======================================================================
+// 4. Conformance: parseDocument output against toJsonSchema
+// ======================================================================
+
+/**
+ * Returns whether a JSON value has a JSON Schema `type`.
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks a JSON value against the keywords `toJsonSchema` emits, returning one
+ * message per mismatch (empty when the value conforms).
+ */
+function check(value: unknown, schema: JsonSchema, root: JsonSchema, path = "$"): string[] {
+  if (typeof schema.$ref === "string") {
+    const name = schema.$ref.replace("#/$defs/", "");
+    return check(value, root.$defs?.[name] ?? {}, root, path);
+  }
+  const errors: string[] = [];
+  if (schema.type !== undefined) {
+    const types = ([] as string[]).concat(schema.type as string | string[]);
+    if (!types.some((type) => hasType(value, type))) {
+      errors.push(`${path}: expected ${types.join(" | ")}`);
+      return errors;
+    }
+  }
+  if ("const" in schema && !isDeepStrictEqual(value, schema.const)) {
+    errors.push(`${path}: expected const ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => isDeepStrictEqual(value, option))) {
+    errors.push(`${path}: expected one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.not && check(value, schema.not as JsonSchema, root, path).length === 0) {
+    errors.push(`${path}: matched a "not" schema`);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf as JsonSchema[];
+    if (!options.some((option) => check(value, option, root, path).length === 0)) {
+      errors.push(`${path}: matched no anyOf option`);
+    }
+  }
+  if (typeof value === "string" && schema.format === "date-time" && Number.isNaN(Date.parse(value))) {
+    errors.push(`${path}: expected a date-time`);
+  }
+  if (typeof value === "string" && schema.format === "uri" && !URL.canParse(value)) {
+    errors.push(`${path}: expected a uri`);
+  }
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...check(item, schema.items as JsonSchema, root, `${path}[${index}]`));
+      });
+    }
+  } else if (hasType(value, "object")) {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in record)) errors.push(`${path}: missing "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = properties[key];
+      if (property) {
+        errors.push(...check(item, property, root, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...check(item, schema.additionalProperties as JsonSchema, root, `${path}.${key}`)
+        );
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Creates a paragraph with one bold, linked run followed by plain text.
+ */
+function createRichParagraph(text: string): docs_v1.Schema$StructuralElement {
+  return {
+    paragraph: {
+      elements: [
+        { textRun: { content: "Docs", textStyle: { bold: true, link: { url: "https://example.com" } } } },
+        { textRun: { content: ` ${text}` } },
+      ],
+      paragraphStyle: { namedStyleType: "NORMAL_TEXT" },
+    },
+  };
+}
+
+const text = (value: string) => createMockParagraph({ text: value, namedStyleType: "NORMAL_TEXT" });
+const bullet = (value: string, nestingLevel = 0) =>
+  createMockParagraph({ text: value, namedStyleType: "NORMAL_TEXT", bullet: true, listId: "l1", nestingLevel });
+const heading = (value: string, level = 2) =>
+  createMockParagraph({ text: value, namedStyleType: `HEADING_${level}` });
+
+describe("toJsonSchema conformance", () => {
+  it.each<[string, ParseSchema["sections"][number]["content"], docs_v1.Schema$StructuralElement[]]>([
+    ["text", { kind: "text" }, [text("Line one"), text("Line two")]],
+    ["text paragraphs", { kind: "text", paragraphs: true }, [text("One"), text("Two")]],
+    ["rich text", { kind: "text", richText: true }, [createRichParagraph("guide")]],
+    ["rich text paragraphs", { kind: "text", richText: true, paragraphs: true }, [createRichParagraph("a"), text("b")]],
+    ["markdown text", { kind: "text", format: "markdown" }, [createRichParagraph("guide")]],
+    ["plain list", { kind: "list", delimiter: "," }, [bullet("a, b"), bullet("c")]],
+    ["flattened list", { kind: "list", isFlatten: true, delimiter: ",", coerce: "integer" }, [bullet("1, 2"), bullet("3")]],
+    [
+      "keys list",
+      { kind: "list", keys: ["school", "year", "site"], delimiter: "|", coerce: { year: "date", site: "url" } },
+      [bullet("MIT | 2020-05-01 | https://mit.edu"), bullet("Open University | |")],
+    ],
+    [
+      "keyDelimiter list",
+      { kind: "list", keyDelimiter: ":", coerce: { Year: "integer" } },
+      [bullet("Year: 2020"), bullet("Tools: Vim, Git"), bullet("No delimiter")],
+    ],
+    ["rich list", { kind: "list", richText: true }, [createRichParagraph("item")]],
+    ["nested list", { kind: "list", nested: true }, [bullet("Parent"), bullet("Child", 1), bullet("Sibling")]],
+    ["rich nested list", { kind: "list", nested: true, richText: true }, [bullet("Parent"), bullet("Child", 1)]],
+    [
+      "table with header",
+      { kind: "table", header: true, coerce: { Age: "number" } },
+      [createMockTable([["Name", "Age"], ["Ada", "36"], ["Bob", ""]])],
+    ],
+    [
+      "table with keys",
+      { kind: "table", keys: ["name", "active"], coerce: { active: "boolean" } },
+      [createMockTable([["Ada", "true"], ["Bob", ""]])],
+    ],
+    ["raw table", { kind: "table" }, [createMockTable([["a", "b"], ["c", "d"]])]],
+    [
+      "tree",
+      {
+        kind: "tree",
+        node: {
+          title: { namedStyleType: "HEADING_2", keys: ["company", "role"], delimiter: "|" },
+          required: true,
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_3", delimiter: "," },
+              content: { kind: "list", keyDelimiter: ":" },
+            },
+          },
+        },
+      },
+      [heading("Acme | Engineer"), heading("Parsers, CLI", 3), text("Stack: TypeScript"), text("Shipped")],
+    ],
+  ])("should match the parsed output of a %s section", (_, content, body) => {
+    // Arrange
+    const parseSchema: ParseSchema = {
+      sections: [{ title: { name: "S", namedStyleType: "HEADING_1" }, ...(content && { content }) }],
+    };
+    const doc = createMockDocument([heading("S", 1), ...body]);
+
+    // Act
+    const result = JSON.parse(JSON.stringify(parseDocument(doc, parseSchema)));
+    const schema = toJsonSchema(parseSchema);
+
+    // Assert
+    expect(result.S).toBeDefined();
+    expect(check(result, schema, schema)).toEqual([]);
+  });
+
+  it("should match sections that fall back to their default or are missing", () => {
+    // Arrange
+    const parseSchema = {
+      sections: [
+        { title: { name: "Present", namedStyleType: "HEADING_1" }, required: true },
+        { title: { name: "Skills", namedStyleType: "HEADING_1" }, content: { kind: "list" }, default: [] },
+        { title: { name: "Hobbies", namedStyleType: "HEADING_1" } },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([heading("Present", 1), text("Here")]);
+
+    // Act
+    const result = JSON.parse(JSON.stringify(parseDocument(doc, parseSchema)));
+    const schema = toJsonSchema(parseSchema);
+
+    // Assert
+    expect(check(result, schema, schema)).toEqual([]);
+  });
+
+  it("should report output that does not match", () => {
+    // Arrange
+    const schema = toJsonSchema({
+      sections: [
+        {
+          title: { name: "S", namedStyleType: "HEADING_1" },
+          content: { kind: "list", keys: ["year"], coerce: { year: "integer" } },
+        },
+      ],
+    });
+
+    // Act
+    const errors = check({ S: [{ year: "2020", extra: 1 }] }, schema, schema);
+
+    // Assert
+    expect(errors).toEqual(['$.S[0].year: expected integer | null', '$.S[0]: unexpected "extra"']);
+  });
+});
+
+// ======================================================================
+// 5. Validators: validate
+// ======================================================================
+describe("toJsonSchema validators", () => {
+  const validate: StandardSchemaV1 = {
+    "~standard": { version: 1, vendor: "test", validate: (value) => ({ value: { wrapped: value } }) },
+  };
+
+  it("should allow any value for validated list items and tree node titles", () => {
+    expect(sectionSchema({ content: { kind: "list", keys: ["a"], validate } })).toEqual({
+      type: "array",
+      items: {},
+    });
+    expect(sectionSchema({ content: { kind: "list", richText: true, validate } })).toEqual({
+      type: "array",
+      items: {},
+    });
+    expect(
+      sectionSchema({
+        content: {
+          kind: "tree",
+          node: {
+            title: { namedStyleType: "HEADING_2", validate },
+            content: { kind: "list", richText: true, validate },
+          },
+        },
+      })
+    ).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { title: {}, content: { type: "array", items: {} } },
+        required: ["title", "content"],
+        additionalProperties: false,
+      },
+    });
+  });
+
+  it("should match the output of validated items", () => {
+    // Arrange
+    const parseSchema: ParseSchema = {
+      sections: [
+        {
+          title: { name: "S", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: { title: { namedStyleType: "HEADING_2", validate }, content: { kind: "list", validate } },
+          },
+        },
+      ],
+    };
+    const doc = createMockDocument([heading("S", 1), heading("Acme"), text("Shipped")]);
+
+    // Act
+    const result = JSON.parse(JSON.stringify(parseDocument(doc, parseSchema)));
+    const schema = toJsonSchema(parseSchema);
+
+    // Assert
+    expect(result.S[0].title).toEqual({ wrapped: "Acme" });
+    expect(check(result, schema, schema)).toEqual([]);
+  });
+});
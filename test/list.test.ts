@@ -244,4 +244,197 @@ describe("parseListSection", () => {
       expect(result).toEqual([]);
     });
   });
+
+  // ======================================================================
+  // 5. Nested Lists (nested: true)
+  // ======================================================================
+  /**
+   * Verifies that bullet nesting levels build `{ text, children }` trees,
+   * that separate lists are grouped by `listId`, and that plain paragraphs
+   * are kept apart from bullets.
+   */
+  describe("Nested Lists", () => {
+    const nestedSchema: Section = {
+      title: { name: "Outline", namedStyleType: "HEADING_2" },
+      content: { kind: "list", nested: true },
+    };
+    const bulletItem = (text: string, listId: string, nestingLevel?: number) =>
+      createMockParagraph({
+        text,
+        bullet: true,
+        listId,
+        ...(nestingLevel !== undefined && { nestingLevel }),
+      }).paragraph;
+
+    it("should build nested items from bullet nesting levels", () => {
+      // Arrange
+      const paragraphs = [
+        bulletItem("Frontend", "l1", 0),
+        bulletItem("React", "l1", 1),
+        bulletItem("Hooks", "l1", 2),
+        bulletItem("Vue", "l1", 1),
+        bulletItem("Backend", "l1"),
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, nestedSchema);
+
+      // Assert
+      expect(result).toEqual([
+        {
+          listId: "l1",
+          bulleted: true,
+          items: [
+            {
+              text: "Frontend",
+              children: [
+                {
+                  text: "React",
+                  children: [{ text: "Hooks", children: [] }],
+                },
+                { text: "Vue", children: [] },
+              ],
+            },
+            { text: "Backend", children: [] },
+          ],
+        },
+      ]);
+    });
+
+    it("should attach items that skip levels to the nearest shallower item", () => {
+      // Arrange
+      const paragraphs = [
+        bulletItem("Root", "l1", 0),
+        bulletItem("Deep", "l1", 2),
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, nestedSchema);
+
+      // Assert
+      expect(result).toEqual([
+        {
+          listId: "l1",
+          bulleted: true,
+          items: [{ text: "Root", children: [{ text: "Deep", children: [] }] }],
+        },
+      ]);
+    });
+
+    it("should separate lists by listId and plain paragraphs from bullets", () => {
+      // Arrange
+      const paragraphs = [
+        createMockParagraph({ text: "Intro" }).paragraph,
+        bulletItem("A", "l1"),
+        bulletItem("B", "l2"),
+        createMockParagraph({ text: "Outro" }).paragraph,
+        createMockParagraph({ text: "Thanks" }).paragraph,
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, nestedSchema);
+
+      // Assert
+      expect(result).toEqual([
+        {
+          listId: null,
+          bulleted: false,
+          items: [{ text: "Intro", children: [] }],
+        },
+        { listId: "l1", bulleted: true, items: [{ text: "A", children: [] }] },
+        { listId: "l2", bulleted: true, items: [{ text: "B", children: [] }] },
+        {
+          listId: null,
+          bulleted: false,
+          items: [
+            { text: "Outro", children: [] },
+            { text: "Thanks", children: [] },
+          ],
+        },
+      ]);
+    });
+
+    it("should stop at headings like the flat list parser", () => {
+      // Arrange
+      const paragraphs = [
+        bulletItem("A", "l1"),
+        createMockParagraph({ text: "Stop", namedStyleType: "HEADING_3" })
+          .paragraph,
+        bulletItem("B", "l1"),
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, nestedSchema);
+
+      // Assert
+      expect(result).toEqual([
+        { listId: "l1", bulleted: true, items: [{ text: "A", children: [] }] },
+      ]);
+    });
+  });
+
+  // ======================================================================
+  // 6. Rich Text Items (richText: true)
+  // ======================================================================
+  describe("Rich Text Items", () => {
+    it("should return one RichText item per paragraph, ignoring delimiters", () => {
+      // Arrange
+      const sectionSchema: Section = {
+        title: { name: "Links", namedStyleType: "HEADING_2" },
+        content: { kind: "list", richText: true, isFlatten: true },
+      };
+      const paragraphs = [
+        {
+          elements: [
+            {
+              textRun: {
+                content: "Docs, guides",
+                textStyle: { link: { url: "https://example.com" } },
+              },
+            },
+          ],
+        },
+        createMockParagraph({ text: "Plain" }).paragraph,
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, sectionSchema);
+
+      // Assert
+      expect(result).toEqual([
+        [{ text: "Docs, guides", link: "https://example.com" }],
+        [{ text: "Plain" }],
+      ]);
+    });
+
+    it("should use RichText item texts in nested mode", () => {
+      // Arrange
+      const sectionSchema: Section = {
+        title: { name: "Outline", namedStyleType: "HEADING_2" },
+        content: { kind: "list", nested: true, richText: true },
+      };
+      const paragraphs = [
+        createMockParagraph({ text: "Item", bullet: true, listId: "l1" })
+          .paragraph,
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseListSection(cursor, sectionSchema);
+
+      // Assert
+      expect(result).toEqual([
+        {
+          listId: "l1",
+          bulleted: true,
+          items: [{ text: [{ text: "Item" }], children: [] }],
+        },
+      ]);
+    });
+  });
 });
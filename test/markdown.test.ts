@@ -0,0 +1,318 @@
+import { describe, it, expect } from "vitest";
+import type { docs_v1 } from "googleapis";
+import { ParseSchema } from "../src/types";
+import { ParagraphCursor } from "../src/cursor";
+import { buildBlocks } from "../src/blocks";
+import {
+  parseMarkdownSection,
+  renderInlineMarkdown,
+  toMarkdown,
+} from "../src/markdown";
+import { parseDocument } from "../src/document";
+import {
+  bulletItem,
+  createMockDocument,
+  createMockParagraph,
+  createMockTable,
+} from "./helpers/factories";
+
+/**
+ * List definitions where "ol" is numbered at every level and "ul" is bulleted.
+ */
+const lists: Record<string, docs_v1.Schema$List> = {
+  ol: {
+    listProperties: {
+      nestingLevels: [{ glyphType: "DECIMAL" }, { glyphType: "ALPHA" }],
+    },
+  },
+  ul: {
+    listProperties: {
+      nestingLevels: [{ glyphSymbol: "●" }, { glyphType: "NONE" }],
+    },
+  },
+};
+
+// ======================================================================
+// 1. Block Model: buildBlocks
+// ======================================================================
+describe("buildBlocks", () => {
+  it("should classify headings, paragraphs, lists, and tables", () => {
+    // Arrange
+    const elements = [
+      createMockParagraph({ text: "Title", namedStyleType: "TITLE" }),
+      createMockParagraph({ text: "Intro", namedStyleType: "NORMAL_TEXT" }),
+      createMockParagraph({ text: "" }),
+      bulletItem("Item", "ul"),
+      createMockTable([["A"]]),
+    ];
+
+    // Act
+    const result = buildBlocks(elements, lists);
+
+    // Assert
+    expect(result).toEqual([
+      { type: "heading", level: 1, content: [{ text: "Title" }] },
+      { type: "paragraph", content: [{ text: "Intro" }] },
+      {
+        type: "list",
+        ordered: false,
+        items: [{ content: [{ text: "Item" }], children: null }],
+      },
+      { type: "table", rows: [[[{ text: "A" }]]] },
+    ]);
+  });
+
+  it("should nest items by level and split lists by listId", () => {
+    // Arrange
+    const elements = [
+      bulletItem("One", "ol"),
+      bulletItem("One A", "ol", 1),
+      bulletItem("Two", "ol"),
+      bulletItem("Other", "ul"),
+    ];
+
+    // Act
+    const result = buildBlocks(elements, lists);
+
+    // Assert
+    expect(result).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        items: [
+          {
+            content: [{ text: "One" }],
+            children: {
+              type: "list",
+              ordered: true,
+              items: [{ content: [{ text: "One A" }], children: null }],
+            },
+          },
+          { content: [{ text: "Two" }], children: null },
+        ],
+      },
+      {
+        type: "list",
+        ordered: false,
+        items: [{ content: [{ text: "Other" }], children: null }],
+      },
+    ]);
+  });
+});
+
+// ======================================================================
+// 2. Inline Rendering: renderInlineMarkdown
+// ======================================================================
+describe("renderInlineMarkdown", () => {
+  it("should render emphasis, code, and links", () => {
+    // Act
+    const result = renderInlineMarkdown([
+      { text: "Plain " },
+      { text: "bold", bold: true },
+      { text: " " },
+      { text: "it", italic: true },
+      { text: " " },
+      { text: "gone", strikethrough: true },
+      { text: " " },
+      { text: "npm i", code: true },
+      { text: " " },
+      { text: "docs", link: "https://example.com/a (b)" },
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      "Plain **bold** *it* ~~gone~~ `npm i` [docs](https://example.com/a%20%28b%29)"
+    );
+  });
+
+  it("should keep surrounding whitespace outside of emphasis markers", () => {
+    // Act
+    const result = renderInlineMarkdown([
+      { text: "a" },
+      { text: " b ", bold: true },
+      { text: "c" },
+    ]);
+
+    // Assert
+    expect(result).toBe("a **b** c");
+  });
+
+  it("should escape Markdown syntax and convert vertical tabs to hard breaks", () => {
+    // Act
+    const result = renderInlineMarkdown([
+      { text: "2 * 3 [x] `y` a_b\u000bnext" },
+    ]);
+
+    // Assert
+    expect(result).toBe("2 \\* 3 \\[x\\] \\`y\\` a\\_b\\\nnext");
+  });
+
+  it("should escape ampersands so entity references stay literal", () => {
+    // Act
+    const result = renderInlineMarkdown([{ text: "&lt;b&gt; & co" }]);
+
+    // Assert
+    expect(result).toBe("\\&lt;b\\&gt; \\& co");
+  });
+
+  it("should drop underline, which has no Markdown equivalent", () => {
+    // Act
+    const result = renderInlineMarkdown([{ text: "under", underline: true }]);
+
+    // Assert
+    expect(result).toBe("under");
+  });
+
+  it("should render links with unsafe schemes as plain text", () => {
+    // Act
+    const result = renderInlineMarkdown([
+      { text: "click", link: "javascript:alert(1)" },
+      { text: " " },
+      { text: "img", link: "data:text/html,<script>" },
+      { text: " " },
+      { text: "ok", link: "/relative" },
+    ]);
+
+    // Assert
+    expect(result).toBe("click img [ok](/relative)");
+  });
+});
+
+// ======================================================================
+// 3. Document Rendering: toMarkdown
+// ======================================================================
+describe("toMarkdown", () => {
+  it("should render a whole document as CommonMark/GFM", () => {
+    // Arrange
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Guide", namedStyleType: "TITLE" }),
+      createMockParagraph({ text: "Setup", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "First paragraph." }),
+      createMockParagraph({ text: "Second paragraph." }),
+      bulletItem("Install", "ol"),
+      bulletItem("Run npm i", "ol", 1),
+      bulletItem("Configure", "ol"),
+      bulletItem("Note", "ul"),
+      bulletItem("Detail", "ul", 1),
+      createMockTable([
+        ["Key", "Value"],
+        ["a|b", "1"],
+      ]),
+    ]);
+    doc.lists = lists;
+
+    // Act
+    const result = toMarkdown(doc);
+
+    // Assert
+    expect(result).toBe(
+      [
+        "# Guide",
+        "## Setup",
+        "First paragraph.",
+        "Second paragraph.",
+        "1. Install\n   1. Run npm i\n2. Configure",
+        "- Note\n  - Detail",
+        "| Key | Value |\n| --- | --- |\n| a\\|b | 1 |",
+      ].join("\n\n")
+    );
+  });
+
+  it("should render lists as bullets when given a bare element array", () => {
+    // Act
+    const result = toMarkdown([bulletItem("One", "ol"), bulletItem("Two", "ol")]);
+
+    // Assert
+    expect(result).toBe("- One\n- Two");
+  });
+
+  it("should escape paragraphs that would start a heading or list", () => {
+    // Act
+    const result = toMarkdown([
+      createMockParagraph({ text: "# not a heading" }),
+      createMockParagraph({ text: "- not a bullet" }),
+      createMockParagraph({ text: "1. not numbered" }),
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      "\\# not a heading\n\n\\- not a bullet\n\n1\\. not numbered"
+    );
+  });
+
+  it("should escape thematic breaks, setext underlines, quotes, and bullets", () => {
+    // Act
+    const result = toMarkdown([
+      createMockParagraph({ text: "---" }),
+      createMockParagraph({ text: "***" }),
+      createMockParagraph({ text: "> not a quote" }),
+      createMockParagraph({ text: "* not a bullet" }),
+      createMockParagraph({ text: "Not a heading\u000b# Nor this\u000b===" }),
+      bulletItem("# not a heading", "ul"),
+    ]);
+
+    // Assert
+    expect(result).toBe(
+      [
+        "\\---",
+        "\\*\\*\\*",
+        "\\> not a quote",
+        "\\* not a bullet",
+        "Not a heading\\\n\\# Nor this\\\n\\===",
+        "- \\# not a heading",
+      ].join("\n\n")
+    );
+  });
+});
+
+// ======================================================================
+// 4. Section Integration: parseMarkdownSection
+// ======================================================================
+describe("parseMarkdownSection", () => {
+  it("should render the section content and stop at the next heading", () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    const elements = [
+      createMockParagraph({ text: "Intro" }),
+      bulletItem("Step", "ol"),
+      createMockParagraph({ text: "Next", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Excluded" }),
+    ];
+    const cursor = ParagraphCursor.fromStructuralElements(
+      elements,
+      schema,
+      lists
+    );
+
+    // Act
+    const result = parseMarkdownSection(cursor);
+
+    // Assert
+    expect(result).toBe("Intro\n\n1. Step");
+    expect(cursor.getCurrentParagraph()?.text).toBe("Next");
+  });
+
+  it("should be selectable per section with format: markdown", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "About", namedStyleType: "HEADING_2" },
+          content: { kind: "text", format: "markdown" },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Line one" }),
+      bulletItem("Point", "ol"),
+    ]);
+    doc.lists = lists;
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result.About).toBe("Line one\n\n1. Point");
+  });
+});
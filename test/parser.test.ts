@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { createMockParagraph, createMockDocument } from "./helpers/factories";
 import { ParseSchema } from "../src/types";
-import { getParsedDocument } from "../src/parser";
+import { getParsedDocument, getParsedDocuments } from "../src/parser";
+import { createLruCacheStore } from "../src/cache";
+import {
+  DocsNotFoundError,
+  DocsTimeoutError,
+  ParseError,
+  SchemaValidationError,
+} from "../src/errors";
 
 // ======================================================================
 // Mocks: googleapis / google-auth-library
@@ -10,8 +17,9 @@ import { getParsedDocument } from "../src/parser";
 const mockDocsGet = vi.fn();
 const mockCreateDocsClient = vi.fn();
 
-vi.mock("../src/auth", () => {
+vi.mock("../src/auth", async (importOriginal) => {
   return {
+    ...(await importOriginal<typeof import("../src/auth")>()),
     createDocsClient: (...args: unknown[]) => mockCreateDocsClient(...args),
   };
 });
@@ -42,6 +50,89 @@ describe("getParsedDocument - API & Error Handling", () => {
     );
   });
 
+  it("should throw a DocsNotFoundError carrying the status and document ID for a 404", async () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    const apiError = Object.assign(new Error("Requested entity was not found."), {
+      status: 404,
+    });
+    mockDocsGet.mockRejectedValue(apiError);
+
+    // Act
+    const promise = getParsedDocument("missing-doc", schema);
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsNotFoundError);
+    await expect(promise).rejects.toMatchObject({
+      status: 404,
+      documentId: "missing-doc",
+      cause: apiError,
+    });
+  });
+
+  it("should reject with a ParseError when a value fails to coerce", async () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "Skills", namedStyleType: "HEADING_2" },
+          content: { kind: "list", coerce: "number" },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    mockDocsGet.mockResolvedValue({
+      data: createMockDocument([
+        createMockParagraph({ text: "Skills", namedStyleType: "HEADING_2" }),
+        createMockParagraph({ text: "Go" }),
+      ]),
+    });
+
+    // Act & Assert
+    await expect(getParsedDocument("doc-parse", schema)).rejects.toBeInstanceOf(
+      ParseError
+    );
+  });
+
+  it("should retry transient API failures when retry is enabled", async () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    mockDocsGet
+      .mockRejectedValueOnce(
+        Object.assign(new Error("Backend Error"), { status: 503 })
+      )
+      .mockResolvedValueOnce({ data: createMockDocument([]) });
+
+    // Act
+    const result = await getParsedDocument("flaky-doc", schema, {
+      retry: { baseDelay: 1 },
+    });
+
+    // Assert
+    expect(result).toEqual({});
+    expect(mockDocsGet).toHaveBeenCalledTimes(2);
+    // googleapis' own retries are disabled so attempts are not multiplied.
+    expect(mockDocsGet).toHaveBeenCalledWith(
+      { documentId: "flaky-doc" },
+      { retry: false }
+    );
+  });
+
+  it("should pass a signal to the API call and reject with a DocsTimeoutError on timeout", async () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    mockDocsGet.mockReturnValue(new Promise(() => {}));
+
+    // Act
+    const promise = getParsedDocument("slow-doc", schema, { timeout: 10 });
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsTimeoutError);
+    expect(mockDocsGet).toHaveBeenCalledWith(
+      { documentId: "slow-doc" },
+      { retry: false, signal: expect.any(AbortSignal) }
+    );
+  });
+
   it("should throw an error when the API returns an empty data object", async () => {
     // Arrange
     const schema: ParseSchema = { sections: [] };
@@ -53,6 +144,51 @@ describe("getParsedDocument - API & Error Handling", () => {
     ).rejects.toThrow("Empty document response from Google Docs API.");
   });
 
+  it("should forward options to the Docs client factory", async () => {
+    // Arrange
+    const schema: ParseSchema = { sections: [] };
+    const options = { credentials: { client_email: "tenant@example.com" } };
+    mockDocsGet.mockResolvedValue({ data: createMockDocument([]) });
+
+    // Act
+    await getParsedDocument("tenant-doc", schema, options);
+
+    // Assert
+    expect(mockCreateDocsClient).toHaveBeenCalledWith(options);
+  });
+
+  it("should reject an invalid schema before calling the API when validateSchema is set", async () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { namedStyleType: "HEADING_2" } }],
+    };
+
+    // Act & Assert
+    await expect(
+      getParsedDocument("doc-invalid-schema", schema, { validateSchema: true })
+    ).rejects.toThrow(SchemaValidationError);
+    expect(mockDocsGet).not.toHaveBeenCalled();
+  });
+
+  it("should return a report with diagnostics when diagnostics is set", async () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "Intro", namedStyleType: "HEADING_2" } }],
+    };
+    mockDocsGet.mockResolvedValue({ data: createMockDocument([]) });
+
+    // Act
+    const report = await getParsedDocument("doc-report", schema, {
+      diagnostics: true,
+    });
+
+    // Assert
+    expect(report.result).toEqual({});
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ code: "missing-section", section: "Intro" }),
+    ]);
+  });
+
   it("should return an empty object if the document body contains no paragraphs", async () => {
     // Arrange
     const schema: ParseSchema = {
@@ -448,7 +584,7 @@ describe("getParsedDocument - Mode: Tree", () => {
           content: [
             {
               title: { feature: "Feature X" },
-              content: ["- Task 1"],
+              content: [["- Task 1"]],
             },
           ],
         },
@@ -498,7 +634,7 @@ describe("getParsedDocument - Mode: Tree", () => {
       Org: [
         {
           title: "Team A",
-          content: [{ title: "Squad 1", content: ["Work"] }],
+          content: [{ title: "Squad 1", content: [["Work"]] }],
         },
         {
           title: "Team B",
@@ -540,7 +676,7 @@ describe("getParsedDocument - Mode: Tree", () => {
 
     // Assert
     expect(result).toEqual({
-      Exp: [{ title: "Job A", content: ["Desc"] }],
+      Exp: [{ title: "Job A", content: [["Desc"]] }],
     });
   });
 });
@@ -622,7 +758,7 @@ describe("getParsedDocument - Robustness", () => {
 
     // Assert
     expect(result).toEqual({
-      Skills: [{ title: "Core", content: ["- JS"] }],
+      Skills: [{ title: "Core", content: [["- JS"]] }],
     });
   });
 });
@@ -820,3 +956,85 @@ describe("getParsedDocument - Enhanced Coverage", () => {
     expect(result).not.toHaveProperty("Unwanted");
   });
 });
+
+// ======================================================================
+// Batch API: getParsedDocuments
+// ======================================================================
+describe("getParsedDocuments", () => {
+  beforeEach(() => {
+    mockDocsGet.mockReset();
+    mockCreateDocsClient.mockReset();
+    mockCreateDocsClient.mockReturnValue({
+      documents: { get: mockDocsGet },
+    });
+  });
+
+  it("should share one Docs client and settle each document separately", async () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "Intro", namedStyleType: "HEADING_2" } }],
+    };
+    mockDocsGet.mockImplementation(async ({ documentId }) => {
+      if (documentId === "missing") {
+        throw Object.assign(new Error("Not Found"), { status: 404 });
+      }
+      return {
+        data: createMockDocument([
+          createMockParagraph({ text: "Intro", namedStyleType: "HEADING_2" }),
+          createMockParagraph({ text: documentId }),
+        ]),
+      };
+    });
+    const onProgress = vi.fn();
+
+    // Act
+    const results = await getParsedDocuments(["one", "missing"], schema, {
+      onProgress,
+    });
+
+    // Assert
+    const sharedClient = mockCreateDocsClient.mock.results[0]?.value;
+    expect(mockCreateDocsClient.mock.calls.slice(1)).toEqual([
+      [expect.objectContaining({ docsClient: sharedClient })],
+      [expect.objectContaining({ docsClient: sharedClient })],
+    ]);
+    expect(results).toEqual([
+      { documentId: "one", status: "fulfilled", value: { Intro: "one" } },
+      {
+        documentId: "missing",
+        status: "rejected",
+        reason: expect.any(DocsNotFoundError),
+      },
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reuse cache entries across batches with the same credentials", async () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "Intro", namedStyleType: "HEADING_2" } }],
+    };
+    mockDocsGet.mockImplementation(async ({ documentId }) => ({
+      data: createMockDocument([
+        createMockParagraph({ text: "Intro", namedStyleType: "HEADING_2" }),
+        createMockParagraph({ text: documentId }),
+      ]),
+    }));
+    // Each batch creates its own client, as `createDocsClient` does.
+    mockCreateDocsClient.mockImplementation(() => ({ documents: { get: mockDocsGet } }));
+    const options = {
+      credentials: JSON.stringify({ client_email: "batch@example.iam.gserviceaccount.com" }),
+      cache: { store: createLruCacheStore() },
+    };
+
+    // Act
+    await getParsedDocuments(["one", "two"], schema, options);
+    const results = await getParsedDocuments(["one", "two"], schema, options);
+    const single = await getParsedDocument("one", schema, options);
+
+    // Assert
+    expect(mockDocsGet).toHaveBeenCalledTimes(2);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled"]);
+    expect(single).toEqual({ Intro: "one" });
+  });
+});
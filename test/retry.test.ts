@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import { ParseSchema } from "../src/types";
+import { withRetry } from "../src/retry";
+import {
+  DocsApiError,
+  DocsAuthError,
+  DocsRateLimitError,
+  parseRetryAfter,
+} from "../src/errors";
+import { getParsedDocument as getEdgeParsedDocument } from "../src/edge";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+// ======================================================================
+// 1. Helper Function: parseRetryAfter
+// ======================================================================
+describe("parseRetryAfter", () => {
+  it("should parse delay seconds and HTTP dates", () => {
+    // Arrange
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+
+    // Act & Assert
+    expect(parseRetryAfter("120")).toBe(120);
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThanOrEqual(9);
+    expect(parseRetryAfter("Thu, 01 Jan 1970 00:00:00 GMT")).toBe(0);
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+// ======================================================================
+// 2. Core Logic: withRetry
+// ======================================================================
+describe("withRetry", () => {
+  const fast = { baseDelay: 1, maxDelay: 10 };
+
+  it("should make a single attempt when retry is not enabled", async () => {
+    // Arrange
+    const request = vi.fn().mockRejectedValue(new DocsApiError("down", { status: 503 }));
+
+    // Act & Assert
+    await expect(withRetry(request, undefined)).rejects.toThrow("down");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry transient statuses and network errors until success", async () => {
+    // Arrange
+    const onRetry = vi.fn();
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(new DocsApiError("unavailable", { status: 503 }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce("ok");
+
+    // Act
+    const result = await withRetry(request, { ...fast, onRetry });
+
+    // Assert
+    expect(result).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.status])).toEqual([
+      [1, 503],
+      [2, null],
+    ]);
+  });
+
+  it("should not retry non-transient failures", async () => {
+    // Arrange
+    const notFound = vi.fn().mockRejectedValue(new DocsApiError("missing", { status: 404 }));
+    const noCredentials = vi.fn().mockRejectedValue(new DocsAuthError("no credentials"));
+
+    // Act & Assert
+    await expect(withRetry(notFound, fast)).rejects.toThrow("missing");
+    await expect(withRetry(noCredentials, fast)).rejects.toThrow("no credentials");
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(noCredentials).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only retry TypeErrors that are fetch network failures", async () => {
+    // Arrange
+    const networkFailure = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new TypeError("fetch failed", { cause: { code: "ECONNRESET" } })
+      )
+      .mockResolvedValueOnce("ok");
+    const programmingError = vi
+      .fn()
+      .mockRejectedValue(new TypeError("response.json is not a function"));
+    const unreachableHost = vi
+      .fn()
+      .mockRejectedValue(new TypeError("fetch failed", { cause: { code: "ENOTFOUND" } }));
+
+    // Act & Assert
+    await expect(withRetry(networkFailure, fast)).resolves.toBe("ok");
+    await expect(withRetry(programmingError, fast)).rejects.toThrow("not a function");
+    await expect(withRetry(unreachableHost, fast)).rejects.toThrow("fetch failed");
+    expect(programmingError).toHaveBeenCalledTimes(1);
+    expect(unreachableHost).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop after maxAttempts and throw the last error", async () => {
+    // Arrange
+    const request = vi.fn().mockRejectedValue(new DocsApiError("down", { status: 500 }));
+
+    // Act & Assert
+    await expect(withRetry(request, { ...fast, maxAttempts: 2 })).rejects.toThrow("down");
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait for Retry-After, or give up when it exceeds maxDelay", async () => {
+    // Arrange
+    const onRetry = vi.fn();
+    const shortWait = vi
+      .fn()
+      .mockRejectedValueOnce(new DocsApiError("slow down", { status: 429, retryAfter: 0 }))
+      .mockResolvedValueOnce("ok");
+    const longWait = vi
+      .fn()
+      .mockRejectedValue(new DocsApiError("quota", { status: 429, retryAfter: 60 }));
+
+    // Act & Assert
+    await expect(withRetry(shortWait, { ...fast, onRetry })).resolves.toBe("ok");
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delay: 0 }));
+    await expect(withRetry(longWait, fast)).rejects.toThrow("quota");
+    expect(longWait).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ======================================================================
+// 3. Integration: Edge getParsedDocument with a mock fetch
+// ======================================================================
+describe("getParsedDocument (edge) - retry", () => {
+  const schema = {
+    sections: [{ title: { name: "About", namedStyleType: "HEADING_2" } }],
+  } as const satisfies ParseSchema;
+  const doc = createMockDocument([
+    createMockParagraph({ text: "About", namedStyleType: "HEADING_2" }),
+    createMockParagraph({ text: "Hello" }),
+  ]);
+
+  it("should retry a 503 and parse the document", async () => {
+    // Arrange
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response("Service Unavailable", { status: 503 }))
+      .mockResolvedValueOnce(Response.json(doc));
+
+    // Act
+    const result = await getEdgeParsedDocument("doc", schema, {
+      accessToken: "token",
+      fetch: fetchMock,
+      retry: { baseDelay: 1 },
+    });
+
+    // Assert
+    expect(result).toEqual({ About: "Hello" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw a DocsRateLimitError with Retry-After once attempts run out", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response("Quota exceeded", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        })
+    );
+
+    // Act
+    const promise = getEdgeParsedDocument("doc", schema, {
+      accessToken: "token",
+      fetch: fetchMock,
+      retry: { maxAttempts: 2 },
+    });
+
+    // Assert
+    await expect(promise).rejects.toBeInstanceOf(DocsRateLimitError);
+    await expect(promise).rejects.toMatchObject({ status: 429, retryAfter: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -155,6 +155,61 @@ describe("getSectionTitle", () => {
     // Assert
     expect(result).toBe("Skills");
   });
+
+  it("should match aliases and patterns while returning the section name", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        {
+          title: {
+            name: "Experience",
+            namedStyleType: "HEADING_2",
+            aliases: ["Work Experience"],
+            match: /^career\b/gi,
+          },
+        },
+      ],
+    };
+    const paragraph = createMockParagraph({
+      text: "Work Experience",
+      namedStyleType: "HEADING_2",
+    }).paragraph;
+
+    // Act & Assert
+    expect(getSectionTitle(paragraph, "work experience", schema)).toBe("Experience");
+    // A global pattern must match on every call, not only the first.
+    expect(getSectionTitle(paragraph, "Career History", schema)).toBe("Experience");
+    expect(getSectionTitle(paragraph, "Career History", schema)).toBe("Experience");
+    expect(getSectionTitle(paragraph, "My Career", schema)).toBeNull();
+  });
+
+  it("should match decorated headings only when normalize is set", () => {
+    // Arrange
+    const schemaWith = (normalize?: boolean): ParseSchema => ({
+      sections: [
+        {
+          title: {
+            name: "Experience",
+            namedStyleType: "HEADING_2",
+            ...(normalize !== undefined && { normalize }),
+          },
+        },
+      ],
+    });
+    const paragraph = createMockParagraph({
+      text: "Experience 💼:",
+      namedStyleType: "HEADING_2",
+    }).paragraph;
+
+    // Act & Assert
+    expect(getSectionTitle(paragraph, "Experience 💼:", schemaWith())).toBeNull();
+    expect(getSectionTitle(paragraph, "Experience 💼:", schemaWith(true))).toBe(
+      "Experience"
+    );
+    expect(getSectionTitle(paragraph, "Ｅｘｐｅｒｉｅｎｃｅ", schemaWith(true))).toBe(
+      "Experience"
+    );
+  });
 });
 
 // ======================================================================
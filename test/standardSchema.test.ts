@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import { validateItem, StandardSchemaV1 } from "../src/standardSchema";
+import { parseDocument } from "../src/document";
+import { getCacheKey } from "../src/cache";
+import { OutputValidationError, SchemaError } from "../src/errors";
+import { ParseSchema } from "../src/types";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+/**
+ * Creates a minimal Standard Schema validator. `check` returns the output value,
+ * or throws a string message to report an issue.
+ */
+function createValidator<O>(
+  check: (value: unknown) => O
+): StandardSchemaV1<unknown, O> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate(value) {
+        try {
+          return { value: check(value) };
+        } catch (message) {
+          return { issues: [{ message: String(message) }] };
+        }
+      },
+    },
+  };
+}
+
+const email = createValidator((value) => {
+  if (typeof value !== "string" || !value.includes("@")) throw "Invalid email";
+  return value.toLowerCase();
+});
+
+// ======================================================================
+// 1. Core Logic: validateItem
+// ======================================================================
+describe("validateItem", () => {
+  it("should return the validator output", () => {
+    // Act
+    const result = validateItem(email, "Me@Example.com", { path: ["S", 0], text: "" });
+
+    // Assert
+    expect(result).toBe("me@example.com");
+  });
+
+  it("should throw an OutputValidationError with the path, text, and issues", () => {
+    // Act & Assert
+    expect(() =>
+      validateItem(email, "nope", {
+        path: ["Experience", 0, "content", 2],
+        text: "nope",
+      })
+    ).toThrow(
+      expect.objectContaining({
+        name: "OutputValidationError",
+        message:
+          'Validation failed at Experience[0].content[2]: Invalid email (paragraph "nope")',
+        path: ["Experience", 0, "content", 2],
+        text: "nope",
+        value: "nope",
+        issues: [{ message: "Invalid email" }],
+      })
+    );
+  });
+
+  it("should reject asynchronous validators", () => {
+    // Arrange
+    const asyncValidator: StandardSchemaV1 = {
+      "~standard": {
+        version: 1,
+        vendor: "async",
+        validate: async (value) => ({ value }),
+      },
+    };
+
+    // Act & Assert
+    expect(() => validateItem(asyncValidator, "x", { path: [], text: "x" })).toThrow(
+      SchemaError
+    );
+  });
+
+  it("should reject validators returning a thenable that is not a native promise", () => {
+    // Arrange
+    const thenable = {
+      then: (resolve: (result: StandardSchemaV1.Result<unknown>) => void) =>
+        resolve({ value: "x" }),
+    };
+    const thenableValidator: StandardSchemaV1 = {
+      "~standard": {
+        version: 1,
+        vendor: "thenable",
+        validate: () => thenable as unknown as Promise<StandardSchemaV1.Result<unknown>>,
+      },
+    };
+
+    // Act & Assert
+    expect(() => validateItem(thenableValidator, "x", { path: [], text: "x" })).toThrow(
+      SchemaError
+    );
+  });
+});
+
+// ======================================================================
+// 2. Integration: validate in lists and trees
+// ======================================================================
+describe("validate option", () => {
+  it("should validate and transform each list item, including flattened values", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "Contacts", namedStyleType: "HEADING_1" },
+          content: { kind: "list", isFlatten: true, validate: email },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Contacts", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "A@x.com, B@x.com" }),
+    ]);
+
+    // Act
+    const result = parseDocument(doc, schema);
+
+    // Assert
+    expect(result.Contacts).toEqual(["a@x.com", "b@x.com"]);
+  });
+
+  it("should report the list item path and source paragraph on failure", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "Contacts", namedStyleType: "HEADING_1" },
+          content: { kind: "list", isFlatten: true, validate: email },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Contacts", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "a@x.com" }),
+      createMockParagraph({ text: "b@x.com, not-an-email" }),
+    ]);
+
+    // Act & Assert
+    expect(() => parseDocument(doc, schema)).toThrow(
+      expect.objectContaining({
+        path: ["Contacts", 2],
+        text: "b@x.com, not-an-email",
+      })
+    );
+  });
+
+  it("should validate tree node titles and detail lines with their paths", () => {
+    // Arrange
+    const nonEmpty = createValidator((value) => {
+      if (!Array.isArray(value) || value.length === 0) throw "Expected items";
+      return value;
+    });
+    const schema = {
+      sections: [
+        {
+          title: { name: "Experience", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: {
+              title: {
+                namedStyleType: "HEADING_2",
+                keys: ["company", "contact"],
+                delimiter: "|",
+                validate: createValidator((value) => {
+                  const title = value as { company: string; contact: string };
+                  return { ...title, contact: title.contact.toLowerCase() };
+                }),
+              },
+              content: { kind: "list", delimiter: ",", validate: nonEmpty },
+            },
+          },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const paragraphList = [
+      createMockParagraph({ text: "Experience", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "Acme | HR@acme.com", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Go, Rust" }),
+      createMockParagraph({ text: "Initech | hr@initech.com", namedStyleType: "HEADING_2" }),
+    ];
+
+    // Act
+    const result = parseDocument(createMockDocument(paragraphList), schema);
+    let error: unknown;
+    try {
+      parseDocument(
+        createMockDocument([...paragraphList, createMockParagraph({ text: " , " })]),
+        schema
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    // Assert
+    expect(result.Experience?.[0]).toEqual({
+      title: { company: "Acme", contact: "hr@acme.com" },
+      content: [["Go", "Rust"]],
+    });
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect(error).toMatchObject({
+      path: ["Experience", 1, "content", 0],
+      text: ",",
+    });
+  });
+
+  it("should report the title path when a node title is rejected", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "Team", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: { title: { namedStyleType: "HEADING_2", validate: email } },
+          },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Team", namedStyleType: "HEADING_1" }),
+      createMockParagraph({ text: "Lead@acme.com", namedStyleType: "HEADING_2" }),
+      createMockParagraph({ text: "Jane Doe", namedStyleType: "HEADING_2" }),
+    ]);
+
+    // Act & Assert
+    expect(() => parseDocument(doc, schema)).toThrow(
+      'Validation failed at Team[1].title: Invalid email (paragraph "Jane Doe")'
+    );
+  });
+
+  it("should include validators in cache keys by identity", () => {
+    // Arrange
+    const schemaWith = (validate: StandardSchemaV1) => ({
+      sections: [
+        {
+          title: { name: "S", namedStyleType: "HEADING_1" },
+          content: { kind: "list" as const, validate },
+        },
+      ],
+    });
+
+    // Act
+    const key = getCacheKey("doc", schemaWith(email), "result");
+    const sameValidatorKey = getCacheKey("doc", schemaWith(email), "result");
+    const otherValidatorKey = getCacheKey(
+      "doc",
+      schemaWith(createValidator((value) => value)),
+      "result"
+    );
+
+    // Assert
+    expect(key).toBe(sameValidatorKey);
+    expect(key).not.toBe(otherValidatorKey);
+  });
+});
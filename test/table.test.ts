@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { Section, ParseSchema } from "../src/types";
+import { ParagraphCursor } from "../src/cursor";
+import {
+  extractTableCells,
+  parseTableRows,
+  parseTableSection,
+} from "../src/table";
+import { parseDocument } from "../src/document";
+import {
+  createMockDocument,
+  createMockParagraph,
+  createMockTable,
+} from "./helpers/factories";
+import { CoercionError } from "../src/errors";
+
+// ======================================================================
+// 1. Helper Function: extractTableCells
+// ======================================================================
+describe("extractTableCells", () => {
+  it("should extract the text of every cell row by row", () => {
+    // Arrange
+    const { table } = createMockTable([
+      ["Plan", "Price"],
+      ["Basic", "10"],
+    ]);
+
+    // Act
+    const result = extractTableCells(table);
+
+    // Assert
+    expect(result).toEqual([
+      ["Plan", "Price"],
+      ["Basic", "10"],
+    ]);
+  });
+
+  it("should join multiple paragraphs in a cell and tolerate missing content", () => {
+    // Arrange
+    const { table } = createMockTable([["A"]]);
+    table.tableRows![0]!.tableCells![0]!.content!.push(
+      createMockParagraph({ text: "B" })
+    );
+    table.tableRows!.push({ tableCells: [{}] });
+
+    // Act
+    const result = extractTableCells(table);
+
+    // Assert
+    expect(result).toEqual([["A B"], [""]]);
+  });
+});
+
+// ======================================================================
+// 2. Core Logic: parseTableRows
+// ======================================================================
+describe("parseTableRows", () => {
+  const cells = [
+    ["Plan", "Price"],
+    ["Basic", "10"],
+    ["Pro", ""],
+  ];
+
+  it("should return raw rows when neither header nor keys are set", () => {
+    expect(parseTableRows(cells, { kind: "table" })).toEqual(cells);
+  });
+
+  it("should use the header row as keys when header is true", () => {
+    expect(parseTableRows(cells, { kind: "table", header: true })).toEqual([
+      { Plan: "Basic", Price: "10" },
+      { Plan: "Pro", Price: "" },
+    ]);
+  });
+
+  it("should prefer explicit keys and skip the header row", () => {
+    expect(
+      parseTableRows(cells, {
+        kind: "table",
+        header: true,
+        keys: ["plan", "price"],
+        coerce: { price: "number" },
+      })
+    ).toEqual([
+      { plan: "Basic", price: 10 },
+      { plan: "Pro", price: null },
+    ]);
+  });
+
+  it("should throw a CoercionError naming the column and row", () => {
+    expect(() =>
+      parseTableRows([["Basic", "free"]], {
+        kind: "table",
+        keys: ["plan", "price"],
+        coerce: { price: "number" },
+      })
+    ).toThrow(CoercionError);
+  });
+});
+
+// ======================================================================
+// 3. Section Parsing: parseTableSection
+// ======================================================================
+describe("parseTableSection", () => {
+  const section: Section = {
+    title: { name: "Pricing", namedStyleType: "HEADING_2" },
+    content: { kind: "table", header: true },
+  };
+  const schema: ParseSchema = { sections: [section] };
+
+  it("should collect rows from all tables until the next heading", () => {
+    // Arrange
+    const cursor = ParagraphCursor.fromStructuralElements(
+      [
+        createMockTable([["Plan"], ["Basic"]]),
+        createMockParagraph({ text: "Caption" }),
+        createMockTable([["Plan"], ["Pro"]]),
+        createMockParagraph({ text: "Next", namedStyleType: "HEADING_2" }),
+        createMockTable([["Plan"], ["Ignored"]]),
+      ],
+      schema
+    );
+
+    // Act
+    const result = parseTableSection(cursor, section);
+
+    // Assert
+    expect(result).toEqual([{ Plan: "Basic" }, { Plan: "Pro" }]);
+  });
+
+  it("should return an empty array if section content kind is NOT 'table'", () => {
+    const cursor = ParagraphCursor.fromStructuralElements(
+      [createMockTable([["A"]])],
+      schema
+    );
+    const listSection: Section = {
+      title: { name: "List", namedStyleType: "HEADING_2" },
+      content: { kind: "list" },
+    };
+
+    expect(parseTableSection(cursor, listSection)).toEqual([]);
+  });
+
+  it("should parse tables through parseDocument with typed output", () => {
+    // Arrange
+    const pricingSchema = {
+      sections: [
+        {
+          title: { name: "Pricing", namedStyleType: "HEADING_2" },
+          content: {
+            kind: "table",
+            header: true,
+            keys: ["plan", "price"],
+            coerce: { price: "number" },
+          },
+        },
+      ],
+    } as const satisfies ParseSchema;
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Pricing", namedStyleType: "HEADING_2" }),
+      createMockTable([
+        ["Plan", "Price"],
+        ["Basic", "9.5"],
+      ]),
+    ]);
+
+    // Act
+    const result = parseDocument(doc, pricingSchema);
+
+    // Assert
+    expect(result.Pricing).toEqual([{ plan: "Basic", price: 9.5 }]);
+  });
+});
@@ -175,4 +175,102 @@ describe("parseTextBlockSection", () => {
       expect(result).toBe("");
     });
   });
+
+  describe("Rich Text", () => {
+    it("should return styled spans joined by a space span when richText is true", () => {
+      // Arrange
+      const paragraphs: docs_v1.Schema$Paragraph[] = [
+        {
+          elements: [
+            { textRun: { content: "Hello ", textStyle: { bold: true } } },
+            { textRun: { content: "World\n" } },
+          ],
+        },
+        createMockParagraph({ text: "Again" }).paragraph,
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseTextBlockSection(cursor, {
+        kind: "text",
+        richText: true,
+      });
+
+      // Assert
+      expect(result).toEqual([
+        { text: "Hello ", bold: true },
+        { text: "World" },
+        { text: " " },
+        { text: "Again" },
+      ]);
+    });
+
+    it("should return a plain string for kind 'text' without options", () => {
+      // Arrange
+      const paragraphs = [
+        createMockParagraph({ text: "Plain" }).paragraph,
+        createMockParagraph({ text: "Text" }).paragraph,
+      ];
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseTextBlockSection(cursor, { kind: "text" });
+
+      // Assert
+      expect(result).toBe("Plain Text");
+    });
+  });
+
+  describe("Paragraph Options", () => {
+    const paragraphs = [
+      createMockParagraph({ text: "First\u000bline" }).paragraph,
+      createMockParagraph({ text: "Second" }).paragraph,
+    ];
+
+    it("should return one string per paragraph when paragraphs is true", () => {
+      // Arrange
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseTextBlockSection(cursor, {
+        kind: "text",
+        paragraphs: true,
+        separator: "ignored",
+      });
+
+      // Assert
+      expect(result).toEqual(["First\u000bline", "Second"]);
+    });
+
+    it("should join paragraphs with a custom separator and keep soft line breaks", () => {
+      // Arrange
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseTextBlockSection(cursor, {
+        kind: "text",
+        separator: "\n\n",
+        lineBreaks: true,
+      });
+
+      // Assert
+      expect(result).toBe("First\nline\n\nSecond");
+    });
+
+    it("should return one RichText per paragraph when combined with richText", () => {
+      // Arrange
+      const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+      // Act
+      const result = parseTextBlockSection(cursor, {
+        kind: "text",
+        richText: true,
+        paragraphs: true,
+        lineBreaks: true,
+      });
+
+      // Assert
+      expect(result).toEqual([[{ text: "First\nline" }], [{ text: "Second" }]]);
+    });
+  });
 });
@@ -8,10 +8,12 @@ import {
 } from "../src/types";
 import { ParagraphCursor } from "../src/cursor";
 import {
+  applyNodeDefaults,
   collectNodeStylesRecursive,
   createNodeFromTitle,
   parseTreeSection,
 } from "../src/tree";
+import { MissingNodeError } from "../src/errors";
 import { createMockParagraph } from "./helpers/factories";
 
 // ======================================================================
@@ -150,8 +152,8 @@ describe("parseTreeSection", () => {
 
     // Assert
     expect(result).toEqual([
-      { title: "Node 1", content: ["- Item A"] },
-      { title: "Node 2", content: ["- Item B"] },
+      { title: "Node 1", content: [["- Item A"]] },
+      { title: "Node 2", content: [["- Item B"]] },
     ]);
   });
 
@@ -189,7 +191,7 @@ describe("parseTreeSection", () => {
     expect(result).toEqual([
       {
         title: "Parent A",
-        content: [{ title: "Child A-1", content: ["Detail 1"] }],
+        content: [{ title: "Child A-1", content: [["Detail 1"]] }],
       },
       {
         title: "Parent B",
@@ -219,7 +221,156 @@ describe("parseTreeSection", () => {
 
     // Assert
     expect(result).toEqual([
-      { title: "Root Node", content: ["Valid Content"] },
+      { title: "Root Node", content: [["Valid Content"]] },
+    ]);
+  });
+
+  it("should parse details with the node's list schema when delimiters are set", () => {
+    // Arrange
+    const section = createTreeSection({
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "list", keyDelimiter: ":", delimiter: "," },
+    });
+    const allStyles = new Set<NamedStyleType>(["HEADING_3"]);
+
+    const paragraphs = [
+      createMockParagraph({ text: "Job", namedStyleType: "HEADING_3" })
+        .paragraph,
+      createMockParagraph({ text: "Stack: React, Go" }).paragraph,
+      createMockParagraph({ text: "Shipped v2" }).paragraph,
+    ];
+    const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+    // Act
+    const result = parseTreeSection(cursor, section, allStyles);
+
+    // Assert
+    expect(result).toEqual([
+      {
+        title: "Job",
+        content: [{ key: "Stack", value: ["React", "Go"] }, "Shipped v2"],
+      },
+    ]);
+  });
+
+  it("should flatten and coerce detail values like a top-level list", () => {
+    // Arrange
+    const section = createTreeSection({
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "list", isFlatten: true, coerce: "number" },
+    });
+    const allStyles = new Set<NamedStyleType>(["HEADING_3"]);
+
+    const paragraphs = [
+      createMockParagraph({ text: "Scores", namedStyleType: "HEADING_3" })
+        .paragraph,
+      createMockParagraph({ text: "1, 2" }).paragraph,
+      createMockParagraph({ text: "3" }).paragraph,
+    ];
+    const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+    // Act
+    const result = parseTreeSection(cursor, section, allStyles);
+
+    // Assert
+    expect(result).toEqual([{ title: "Scores", content: [1, 2, 3] }]);
+  });
+
+  it("should return RichText details when the node list uses richText", () => {
+    // Arrange
+    const section = createTreeSection({
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "list", richText: true },
+    });
+    const allStyles = new Set<NamedStyleType>(["HEADING_3"]);
+
+    const paragraphs = [
+      createMockParagraph({ text: "Job", namedStyleType: "HEADING_3" })
+        .paragraph,
+      {
+        elements: [
+          { textRun: { content: "Shipped " } },
+          { textRun: { content: "v2", textStyle: { bold: true } } },
+        ],
+      },
+    ];
+    const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+    // Act
+    const result = parseTreeSection(cursor, section, allStyles);
+
+    // Assert
+    expect(result).toEqual([
+      {
+        title: "Job",
+        content: [[{ text: "Shipped " }, { text: "v2", bold: true }]],
+      },
+    ]);
+  });
+
+  it("should split plain detail lines on the default delimiter like a top-level list", () => {
+    // Arrange
+    const section = createTreeSection({
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "list" },
+    });
+    const allStyles = new Set<NamedStyleType>(["HEADING_3"]);
+
+    const paragraphs = [
+      createMockParagraph({ text: "Job", namedStyleType: "HEADING_3" })
+        .paragraph,
+      createMockParagraph({ text: "React, Go" }).paragraph,
+      createMockParagraph({ text: "Shipped v2" }).paragraph,
+    ];
+    const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+    // Act
+    const result = parseTreeSection(cursor, section, allStyles);
+
+    // Assert
+    expect(result).toEqual([
+      { title: "Job", content: [["React", "Go"], ["Shipped v2"]] },
+    ]);
+  });
+
+  it("should build nested detail items when the node list uses nested", () => {
+    // Arrange
+    const section = createTreeSection({
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "list", nested: true },
+    });
+    const allStyles = new Set<NamedStyleType>(["HEADING_3"]);
+
+    const paragraphs = [
+      createMockParagraph({ text: "Job", namedStyleType: "HEADING_3" })
+        .paragraph,
+      createMockParagraph({ text: "Backend", bullet: true, listId: "l1" })
+        .paragraph,
+      createMockParagraph({ text: "APIs", bullet: true, listId: "l1", nestingLevel: 1 })
+        .paragraph,
+      createMockParagraph({ text: "Next", namedStyleType: "HEADING_3" })
+        .paragraph,
+    ];
+    const cursor = new ParagraphCursor(paragraphs, dummySchema);
+
+    // Act
+    const result = parseTreeSection(cursor, section, allStyles);
+
+    // Assert
+    expect(result).toEqual([
+      {
+        title: "Job",
+        content: [
+          {
+            listId: "l1",
+            bulleted: true,
+            items: [
+              { text: "Backend", children: [{ text: "APIs", children: [] }] },
+            ],
+          },
+        ],
+      },
+      { title: "Next", content: [] },
     ]);
   });
 });
@@ -348,3 +499,80 @@ describe("parseTreeSection - Termination & Rules", () => {
     expect(result).toEqual([{ title: "Parent", content: [] }]);
   });
 });
+
+// ======================================================================
+// 5. Node Presence: applyNodeDefaults
+// ======================================================================
+describe("applyNodeDefaults", () => {
+  const childNode: Node = { title: { namedStyleType: "HEADING_4" } };
+
+  it("should return the parsed nodes unchanged when every level is present", () => {
+    // Arrange
+    const nodeSchema: Node = {
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "tree", node: { ...childNode, required: true } },
+    };
+    const nodes = [{ title: "Parent", content: [{ title: "Child", content: [] }] }];
+
+    // Act
+    const result = applyNodeDefaults(nodes, nodeSchema);
+
+    // Assert
+    expect(result).toEqual([
+      { title: "Parent", content: [{ title: "Child", content: [] }] },
+    ]);
+  });
+
+  it("should fill in the default for missing child nodes", () => {
+    // Arrange
+    const nodeSchema: Node = {
+      title: { namedStyleType: "HEADING_3" },
+      content: {
+        kind: "tree",
+        node: { ...childNode, default: [{ title: "None", content: [] }] },
+      },
+    };
+
+    // Act
+    const result = applyNodeDefaults(
+      [{ title: "Parent", content: [] }],
+      nodeSchema
+    );
+
+    // Assert
+    expect(result).toEqual([
+      { title: "Parent", content: [{ title: "None", content: [] }] },
+    ]);
+  });
+
+  it("should throw a MissingNodeError naming the parent for a missing required child", () => {
+    // Arrange
+    const nodeSchema: Node = {
+      title: { namedStyleType: "HEADING_3" },
+      content: { kind: "tree", node: { ...childNode, required: true } },
+    };
+
+    // Act & Assert
+    expect(() =>
+      applyNodeDefaults([{ title: "Parent", content: [] }], nodeSchema)
+    ).toThrow(new MissingNodeError("HEADING_4", "Parent"));
+  });
+
+  it("should throw from parseTreeSection when a required root node is missing", () => {
+    // Arrange
+    const section: Section = {
+      title: { name: "Jobs", namedStyleType: "HEADING_2" },
+      content: {
+        kind: "tree",
+        node: { title: { namedStyleType: "HEADING_3" }, required: true },
+      },
+    };
+    const paragraphs = [createMockParagraph({ text: "Only text" }).paragraph];
+    const cursor = new ParagraphCursor(paragraphs, { sections: [] });
+
+    // Act & Assert
+    expect(() =>
+      parseTreeSection(cursor, section, new Set<NamedStyleType>(["HEADING_3"]))
+    ).toThrow("Required node (HEADING_3) was not found in the section.");
+  });
+});
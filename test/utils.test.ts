@@ -3,9 +3,11 @@ import type { docs_v1 } from "googleapis";
 import { Title } from "../src/types";
 import {
   extractParagraphText,
+  extractRichText,
   hasNamedStyle,
   getParagraphNamedStyleType,
   isNamedStyleType,
+  normalizeTitleText,
   splitAndTrim,
   parseDelimitedList,
   parseToKeyedList,
@@ -77,6 +79,97 @@ describe("extractParagraphText", () => {
     const paragraph = createMockParagraph({ text: "   \n  " }).paragraph;
     expect(extractParagraphText(paragraph)).toBe("");
   });
+
+  it("should convert soft line breaks (\\u000b) to \\n only when preserveLineBreaks is true", () => {
+    // Arrange
+    const paragraph = createMockParagraph({ text: "Line 1\u000bLine 2\n" })
+      .paragraph;
+
+    // Act & Assert
+    expect(extractParagraphText(paragraph)).toBe("Line 1\u000bLine 2");
+    expect(extractParagraphText(paragraph, true)).toBe("Line 1\nLine 2");
+  });
+});
+
+// ======================================================================
+// 1-1. Helper Function: extractRichText
+// ======================================================================
+/**
+ * Verifies that inline styles and links are preserved as spans,
+ * with the same trimming and newline handling as plain text extraction.
+ */
+describe("extractRichText", () => {
+  it("should convert text runs into styled spans", () => {
+    // Arrange
+    const paragraph: docs_v1.Schema$Paragraph = {
+      elements: [
+        { textRun: { content: "Read " } },
+        {
+          textRun: {
+            content: "the docs",
+            textStyle: {
+              underline: true,
+              link: { url: "https://example.com" },
+            },
+          },
+        },
+        { textRun: { content: " " } },
+        { textRun: { content: "now", textStyle: { bold: true, italic: true } } },
+        {
+          textRun: {
+            content: "!",
+            textStyle: {
+              strikethrough: true,
+              weightedFontFamily: { fontFamily: "Roboto Mono" },
+            },
+          },
+        },
+        { textRun: { content: "\n" } },
+      ],
+    };
+
+    // Act
+    const result = extractRichText(paragraph);
+
+    // Assert
+    expect(result).toEqual([
+      { text: "Read " },
+      { text: "the docs", underline: true, link: "https://example.com" },
+      { text: " " },
+      { text: "now", bold: true, italic: true },
+      { text: "!", strikethrough: true, code: true },
+    ]);
+  });
+
+  it("should merge adjacent runs with identical styles", () => {
+    // Arrange
+    const paragraph: docs_v1.Schema$Paragraph = {
+      elements: [
+        { textRun: { content: "Hello ", textStyle: { bold: true } } },
+        { textRun: { content: "World", textStyle: { bold: true } } },
+      ],
+    };
+
+    // Act & Assert
+    expect(extractRichText(paragraph)).toEqual([
+      { text: "Hello World", bold: true },
+    ]);
+  });
+
+  it("should trim the paragraph edges and drop whitespace-only edge spans", () => {
+    // Arrange
+    const paragraph: docs_v1.Schema$Paragraph = {
+      elements: [
+        { textRun: { content: "  ", textStyle: { bold: true } } },
+        { textRun: { content: "  Text  " } },
+        { textRun: { content: "\n", textStyle: { italic: true } } },
+      ],
+    };
+
+    // Act & Assert
+    expect(extractRichText(paragraph)).toEqual([{ text: "Text" }]);
+    expect(extractRichText({})).toEqual([]);
+  });
 });
 
 // ======================================================================
@@ -151,6 +244,34 @@ describe("Style Helpers", () => {
   });
 });
 
+// ======================================================================
+// 2-1. Title Helper: normalizeTitleText
+// ======================================================================
+describe("normalizeTitleText", () => {
+  it("should only trim and lowercase by default", () => {
+    expect(normalizeTitleText("  Work  Experience: ")).toBe("work  experience:");
+  });
+
+  it("should apply each normalization option", () => {
+    expect(normalizeTitleText("Ｓｋｉｌｌｓ", { nfkc: true })).toBe("skills");
+    expect(normalizeTitleText("🚀 Projects 👩🏽‍💻", { stripEmoji: true })).toBe("projects");
+    expect(normalizeTitleText("Skills & Tools:", { stripPunctuation: true })).toBe(
+      "skills   tools"
+    );
+    expect(normalizeTitleText("Skills\t and  Tools", { collapseWhitespace: true })).toBe(
+      "skills and tools"
+    );
+  });
+
+  it("should enable every option except locale when normalize is true", () => {
+    expect(normalizeTitleText("💼 Work—Experience: ", true)).toBe("work experience");
+  });
+
+  it("should fold case with the given locale", () => {
+    expect(normalizeTitleText("İLETİŞİM", { locale: "tr" })).toBe("iletişim");
+  });
+});
+
 // ======================================================================
 // 3. String Helper: splitAndTrim
 // ======================================================================
@@ -407,4 +528,61 @@ describe("parseStructuredText", () => {
       });
     });
   });
+
+  // ----------------------------------------------------------------
+  // Scenario D: Value Coercion
+  // ----------------------------------------------------------------
+  describe("Value Coercion", () => {
+    it("should coerce every item of a delimited list", () => {
+      const schema: Title = { namedStyleType: "NORMAL_TEXT", coerce: "integer" };
+      expect(parseStructuredText("1, 2, 3", schema)).toEqual([1, 2, 3]);
+    });
+
+    it("should coerce keys fields per field and map empty fields to null", () => {
+      const schema: Title = {
+        namedStyleType: "NORMAL_TEXT",
+        keys: ["company", "year", "remote"],
+        delimiter: "|",
+        coerce: { year: "integer", remote: "boolean" },
+      };
+      expect(parseStructuredText("Google | 2023 | yes", schema)).toEqual({
+        company: "Google",
+        year: 2023,
+        remote: true,
+      });
+      expect(parseStructuredText("Google", schema)).toEqual({
+        company: "Google",
+        year: null,
+        remote: null,
+      });
+    });
+
+    it("should coerce keyed-list values using the parsed key", () => {
+      const schema: Title = {
+        namedStyleType: "NORMAL_TEXT",
+        keyDelimiter: ":",
+        coerce: { Years: "integer" },
+      };
+      expect(parseStructuredText("Years: 2020, 2021", schema)).toEqual({
+        key: "Years",
+        value: [2020, 2021],
+      });
+      expect(parseStructuredText("Stack: React", schema)).toEqual({
+        key: "Stack",
+        value: ["React"],
+      });
+    });
+
+    it("should throw a CoercionError naming the field and paragraph", () => {
+      const schema: Title = {
+        namedStyleType: "NORMAL_TEXT",
+        keys: ["company", "year"],
+        delimiter: "|",
+        coerce: { year: "integer" },
+      };
+      expect(() => parseStructuredText("Google | soon", schema)).toThrow(
+        'Cannot coerce "soon" to integer (field "year" in paragraph "Google | soon")'
+      );
+    });
+  });
 });
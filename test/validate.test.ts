@@ -0,0 +1,281 @@
+import { describe, it, expect } from "vitest";
+import { ParseSchema } from "../src/types";
+import { validateSchema, assertValidSchema } from "../src/validate";
+import { parseDocument } from "../src/document";
+import { SchemaValidationError } from "../src/errors";
+import { createMockDocument, createMockParagraph } from "./helpers/factories";
+
+// ======================================================================
+// 1. Core Logic: validateSchema
+// ======================================================================
+describe("validateSchema", () => {
+  it("should report no issues for a well-formed schema", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        { title: { name: "About", namedStyleType: "HEADING_2" } },
+        {
+          title: { name: "Experience", namedStyleType: "HEADING_2" },
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_3", keys: ["role"], delimiter: "|" },
+              content: { kind: "list" },
+            },
+          },
+        },
+      ],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it("should report missing and duplicate section names", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        { title: { name: "Skills", namedStyleType: "HEADING_2" } },
+        { title: { namedStyleType: "HEADING_2" } },
+        { title: { name: " skills ", namedStyleType: "HEADING_2" } },
+      ],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: "missing-section-name",
+        path: "sections[1].title.name",
+      }),
+      expect.objectContaining({
+        code: "duplicate-section-name",
+        path: "sections[2].title.name",
+      }),
+    ]);
+  });
+
+  it("should report unknown named styles", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "A", namedStyleType: "HEADING_7" } }],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        code: "invalid-named-style",
+        path: "sections[0].title.namedStyleType",
+      }),
+    ]);
+  });
+
+  it("should accept NORMAL_TEXT titles, which the parser matches", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [{ title: { name: "Intro", namedStyleType: "NORMAL_TEXT" } }],
+    };
+    const doc = createMockDocument([
+      createMockParagraph({ text: "Intro", namedStyleType: "NORMAL_TEXT" }),
+      createMockParagraph({ text: "body", namedStyleType: "NORMAL_TEXT" }),
+    ]);
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.errors).toEqual([]);
+    expect(parseDocument(doc, schema, { validateSchema: true })).toEqual({
+      Intro: "body",
+    });
+  });
+
+  it("should report nodes reusing the style of their parent or a higher ancestor", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        {
+          title: { name: "A", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_2" },
+              content: {
+                kind: "tree",
+                node: {
+                  title: { namedStyleType: "HEADING_2" },
+                  content: {
+                    kind: "tree",
+                    node: { title: { namedStyleType: "HEADING_3" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        {
+          title: { name: "B", namedStyleType: "HEADING_1" },
+          content: {
+            kind: "tree",
+            node: {
+              title: { namedStyleType: "HEADING_2" },
+              content: {
+                kind: "tree",
+                node: {
+                  title: { namedStyleType: "HEADING_3" },
+                  content: {
+                    kind: "tree",
+                    node: { title: { namedStyleType: "HEADING_2" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: "unreachable-node",
+        path: "sections[0].content.node.content.node.title.namedStyleType",
+      }),
+      expect.objectContaining({
+        code: "style-collision",
+        path: "sections[1].content.node.content.node.content.node.title.namedStyleType",
+      }),
+    ]);
+  });
+
+  it("should report tree content without a node", () => {
+    // Arrange
+    const schema = {
+      sections: [
+        {
+          title: { name: "A", namedStyleType: "HEADING_1" },
+          content: { kind: "tree" },
+        },
+      ],
+    } as unknown as ParseSchema;
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: "missing-tree-node",
+        path: "sections[0].content",
+      }),
+    ]);
+  });
+
+  it("should warn about empty keys and keys combined with keyDelimiter", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        {
+          title: { name: "A", namedStyleType: "HEADING_1" },
+          content: { kind: "list", keys: [] },
+        },
+        {
+          title: { name: "B", namedStyleType: "HEADING_1" },
+          content: { kind: "list", keys: ["a"], keyDelimiter: ":" },
+        },
+      ],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        code: "empty-keys",
+        path: "sections[0].content.keys",
+      }),
+      expect.objectContaining({
+        severity: "warning",
+        code: "keys-with-key-delimiter",
+        path: "sections[1].content.keys",
+      }),
+    ]);
+  });
+
+  it("should report aliases that collide with other section names", () => {
+    // Arrange
+    const schema: ParseSchema = {
+      sections: [
+        { title: { name: "Experience", namedStyleType: "HEADING_1" } },
+        {
+          title: {
+            name: "Work",
+            namedStyleType: "HEADING_1",
+            aliases: ["work", "Experience 💼"],
+            normalize: { stripEmoji: true },
+          },
+        },
+      ],
+    };
+
+    // Act
+    const result = validateSchema(schema);
+
+    // Assert
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: "duplicate-section-name",
+        path: "sections[1].title.aliases[1]",
+      }),
+    ]);
+  });
+});
+
+// ======================================================================
+// 2. Integration: assertValidSchema & parseDocument
+// ======================================================================
+describe("assertValidSchema", () => {
+  const invalidSchema: ParseSchema = {
+    sections: [{ title: { namedStyleType: "HEADING_2" } }],
+  };
+
+  it("should throw a SchemaValidationError listing the errors", () => {
+    // Act & Assert
+    expect(() => assertValidSchema(invalidSchema)).toThrow(SchemaValidationError);
+    try {
+      assertValidSchema(invalidSchema);
+    } catch (error) {
+      expect((error as SchemaValidationError).issues).toHaveLength(1);
+      expect((error as SchemaValidationError).message).toContain(
+        "sections[0].title.name"
+      );
+    }
+  });
+
+  it("should only validate in parseDocument when validateSchema is set", () => {
+    // Arrange
+    const doc = createMockDocument([createMockParagraph({ text: "Text" })]);
+
+    // Act & Assert
+    expect(parseDocument(doc, invalidSchema)).toEqual({});
+    expect(() =>
+      parseDocument(doc, invalidSchema, { validateSchema: true })
+    ).toThrow(SchemaValidationError);
+  });
+});
@@ -4,6 +4,7 @@ export default defineConfig({
   entry: {
     index: "src/index.ts",
     edge: "src/edge/index.ts",
+    cli: "src/bin.ts",
   },
   format: ["cjs", "esm"],
   dts: true,